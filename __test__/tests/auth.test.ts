@@ -0,0 +1,61 @@
+import { launchNetwork } from "../../src/index";
+import { createNetworkKeys, signMessage } from "../../src/auth";
+import { delayAndReplay } from "../../src/faults";
+import { startConsensus } from "../../src/nodes/consensus";
+import { PROTOCOL_VERSION } from "../../src/protocol";
+import { createSimulation } from "../../src/simulation";
+import { Message } from "../../src/types";
+
+describe("Authenticated messages", () => {
+  it("Rejects forged messages and messages from unknown senders", async () => {
+    const simulation = createSimulation(1);
+    const { transport } = simulation;
+    await launchNetwork(3, 0, [1, 1, 1], [false, false, false], { simulation });
+
+    const message: Message = {
+      version: PROTOCOL_VERSION,
+      instance: "default",
+      phase: 1,
+      round: 1,
+      sender: 1,
+      value: 0,
+      timestamp: 1,
+    };
+    const send = (message: Message<unknown>) =>
+      transport.send(0, message, new AbortController().signal);
+
+    // signed with a key that is not node 1's
+    const [outsider] = createNetworkKeys(1);
+    await Promise.all([
+      send(signMessage(message, outsider.privateKey)),
+      send({ ...message, signature: "not a signature" }),
+      send({ ...message, sender: 7 }),
+      simulation.run(),
+    ]);
+
+    expect((await transport.getState(0)).rejected).toEqual({
+      badSignature: 2,
+      unknownSender: 1,
+      duplicate: 0,
+      malformed: 0,
+      version: 0,
+    });
+  });
+
+  it("Rejects replayed messages as duplicates", async () => {
+    const simulation = createSimulation(2);
+    const { transport } = simulation;
+    await launchNetwork(4, 1, [1, 1, 1, 1], [false, false, false, true], {
+      simulation,
+      faults: { 3: delayAndReplay(1) },
+    });
+
+    await startConsensus(4, transport);
+    await simulation.run();
+
+    const state = await transport.getState(0);
+    expect(state.decided).toBe(true);
+    expect(state.rejected?.duplicate).toBeGreaterThan(0);
+    expect(state.rejected?.badSignature).toBe(0);
+  });
+});
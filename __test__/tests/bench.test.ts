@@ -0,0 +1,63 @@
+import { bench, toCsv } from "../../src/bench";
+import { runCli } from "../../src/cli";
+
+describe("Benchmark harness", () => {
+  it("Aggregates rounds, messages and time over repeated runs", async () => {
+    const [result] = await bench([{ N: 4, F: 1, inputs: "unanimous" }], { repetitions: 5 });
+
+    expect(result?.repetitions).toBe(5);
+    expect(result?.nonTerminationRate).toBe(0);
+    // unanimous inputs decide in the first round
+    expect(result?.rounds).toEqual({ min: 1, mean: 1, median: 1, p90: 1, max: 1 });
+    expect(result?.messagesPerNode.min).toBeGreaterThan(0);
+    expect(result?.bytesPerNode.mean).toBeGreaterThan(result?.messagesPerNode.mean ?? 0);
+    expect(result?.virtualTime?.max).toBeGreaterThan(0);
+  });
+
+  it("Counts the messages sent, lost ones included", async () => {
+    const [result] = await bench([{ N: 3, F: 0, network: { dropRate: 1 } }], {
+      repetitions: 1,
+      maxTime: 2000,
+    });
+
+    expect(result?.nonTerminationRate).toBe(1);
+    expect(result?.messagesPerNode.min).toBeGreaterThan(0);
+  });
+
+  it("Compares round caps", async () => {
+    const results = await bench(
+      [1, null].map((maxRounds) => ({ N: 4, F: 0, inputs: "split" as const, maxRounds })),
+      { repetitions: 3 }
+    );
+
+    // a 2-2 split has no majority to decide on in the first round
+    expect(results.map((result) => result.nonTerminationRate)).toEqual([1, 0]);
+    expect(
+      toCsv(results)
+        .trim()
+        .split("\n")
+        .map((row) => row.split(",")[5])
+    ).toEqual(["maxRounds", "1", "none"]);
+  });
+
+  it("Sweeps configurations from the command line as CSV", async () => {
+    const lines: string[] = [];
+    const code = await runCli(
+      ["bench", "--n", "3,5", "--f", "0,1,2", "--max-rounds", "20", "--repeat", "2"],
+      (line) => lines.push(line)
+    );
+
+    expect(code).toBe(0);
+    const rows = (lines[0] ?? "").trim().split("\n");
+    // N = 3 with F = 2 is out of the tolerance
+    expect(rows.map((row) => row.split(",").slice(0, 2).join(","))).toEqual([
+      "N,F",
+      "3,0",
+      "3,1",
+      "5,0",
+      "5,1",
+      "5,2",
+    ]);
+    expect(toCsv([]).trim()).toBe(rows[0]);
+  });
+});
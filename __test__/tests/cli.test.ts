@@ -0,0 +1,58 @@
+import { EXIT, parseCommand, runCli } from "../../src/cli";
+
+describe("Command line", () => {
+  it("Parses the network configuration", () => {
+    const { command, options } = parseCommand([
+      "launch",
+      "--n",
+      "5",
+      "--f",
+      "2",
+      "--inputs",
+      "0,1,?,1,0",
+      "--faulty",
+      "1,3",
+    ]);
+
+    expect(command).toBe("launch");
+    expect(options).toMatchObject({
+      N: 5,
+      F: 2,
+      initialValues: [0, 1, "?", 1, 0],
+      faultyList: [false, true, false, true, false],
+    });
+  });
+
+  it("Rejects inconsistent options with the usage", async () => {
+    const lines: string[] = [];
+    const code = await runCli(["run", "--n", "3", "--f", "2", "--faulty", "1"], (line) =>
+      lines.push(line)
+    );
+
+    expect(code).toBe(EXIT.usage);
+    expect(lines[0]).toContain("--faulty lists 1 nodes but --f is 2");
+  });
+
+  it("Rejects empty numbers and a bench without --n", async () => {
+    expect(() => parseCommand(["state", "--n", ""])).toThrow("--n expects a non-negative integer");
+    expect(() => parseCommand(["state", "--n", "3", "--timeout", " "])).toThrow(
+      "--timeout expects a non-negative integer"
+    );
+
+    const lines: string[] = [];
+    const code = await runCli(["bench", "--f", "0"], (line) => lines.push(line));
+    expect(code).toBe(EXIT.usage);
+    expect(lines[0]).toContain("bench expects --n");
+  });
+
+  it("Runs a network to finality and prints its states", async () => {
+    const lines: string[] = [];
+    const code = await runCli(["run", "--n", "5", "--f", "1", "--inputs", "1,1,0,1,1"], (line) =>
+      lines.push(line)
+    );
+
+    expect(code).toBe(EXIT.ok);
+    expect(lines[0]?.split("\n")).toHaveLength(6);
+    expect(lines[1]).toContain("finality: true");
+  });
+});
@@ -0,0 +1,63 @@
+import { launchNetwork } from "../../src/index";
+import { startConsensus } from "../../src/nodes/consensus";
+import { CoinSource, createCommonCoin, createLocalCoin } from "../../src/coins";
+import { createRandom, createSimulation } from "../../src/simulation";
+import { Value } from "../../src/types";
+
+// rounds used by the correct nodes of the "Fault Tolerance Threshold" network
+async function simulate(seed: number, coin?: (seed: number) => CoinSource) {
+  const faultyArray = [true, true, true, true, false, false, false, false, false];
+  const initialValues: Value[] = [0, 0, 1, 1, 1, 0, 0, 1, 1];
+
+  const simulation = createSimulation(seed);
+  await launchNetwork(
+    faultyArray.length,
+    faultyArray.filter((el) => el === true).length,
+    initialValues,
+    faultyArray,
+    { simulation, ...(coin ? { coin: coin(seed) } : {}) }
+  );
+
+  await startConsensus(faultyArray.length, simulation.transport);
+  await simulation.run();
+
+  const states = await Promise.all(
+    faultyArray.map((_, index) => simulation.transport.getState(index))
+  );
+
+  return states.filter((_, index) => !faultyArray[index]);
+}
+
+describe("Coin sources", () => {
+  it("Common coin gives every node the same flip for a round", () => {
+    const coin = createCommonCoin(3);
+
+    for (let round = 1; round < 10; round++) {
+      expect(coin.flip(1, round)).toBe(coin.flip(2, round));
+    }
+  });
+
+  it("Common coin decides in fewer rounds than local coins", async () => {
+    const seeds = new Array(20).fill(0).map((_, i) => i + 1);
+    let localRounds = 0;
+    let commonRounds = 0;
+
+    for (const seed of seeds) {
+      const local = await simulate(seed, (seed) => createLocalCoin(createRandom(seed)));
+      const common = await simulate(seed, createCommonCoin);
+
+      expect(common.every((state) => state.decided)).toBe(true);
+      localRounds += local[0].k ?? 0;
+      commonRounds += common[0].k ?? 0;
+    }
+
+    expect(commonRounds).toBeLessThan(localRounds);
+  });
+
+  it("Decides the threshold network on every seed with the default coin", async () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const states = await simulate(seed);
+      expect(states.every((state) => state.decided)).toBe(true);
+    }
+  });
+});
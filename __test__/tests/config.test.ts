@@ -0,0 +1,93 @@
+import {
+  configErrors,
+  DEFAULT_NETWORK_CONFIG,
+  NetworkConfigInput,
+  NodeConfig,
+  resolveConfig,
+} from "../../src/config";
+import { equivocate } from "../../src/faults";
+import { launchNetwork } from "../../src/index";
+import { startConsensus } from "../../src/nodes/consensus";
+import { createSimulation } from "../../src/simulation";
+import { Value } from "../../src/types";
+
+async function simulate(node: Partial<NodeConfig>) {
+  const initialValues: Value[] = [0, 1, 0, 1, 1];
+  const simulation = createSimulation(4);
+  await launchNetwork(5, 1, initialValues, [false, false, false, false, true], {
+    simulation,
+    config: { node },
+  });
+  await startConsensus(5, simulation.transport);
+  await simulation.run({ maxTime: 60000 });
+
+  return Promise.all([0, 1, 2, 3].map((index) => simulation.transport.getState(index)));
+}
+
+describe("Configuration", () => {
+  it("Takes the defaults, then the launch's values, then the environment", () => {
+    expect(resolveConfig({}, {})).toEqual(DEFAULT_NETWORK_CONFIG);
+
+    const config = resolveConfig(
+      { basePort: 5000, node: { sendAttempts: 2, sendTimeout: 200 } },
+      { BENOR_SEND_TIMEOUT_MS: "1000", BENOR_MAX_ROUNDS: "unbounded", BENOR_FAULT_MODEL: "crash" }
+    );
+    expect(config).toEqual({
+      basePort: 5000,
+      faultModel: "crash",
+      node: {
+        ...DEFAULT_NETWORK_CONFIG.node,
+        sendAttempts: 2,
+        sendTimeout: 1000,
+        maxRounds: null,
+      },
+    });
+
+    expect(() => resolveConfig({}, { BENOR_SEND_ATTEMPTS: "many" })).toThrow(
+      'BENOR_SEND_ATTEMPTS must be a number, got "many"'
+    );
+  });
+
+  it("Checks F against N for the fault model", async () => {
+    const crash = { ...DEFAULT_NETWORK_CONFIG, faultModel: "crash" as const };
+    const byzantine = { ...DEFAULT_NETWORK_CONFIG, faultModel: "byzantine" as const };
+
+    expect(configErrors(crash, 5, 2)).toEqual([]);
+    expect(configErrors(crash, 4, 2)).toEqual([
+      "F must be below N/2 for crash faults, got N=4 and F=2",
+    ]);
+    expect(configErrors(byzantine, 5, 1)).toHaveLength(1);
+    expect(configErrors(byzantine, 11, 2)).toEqual([]);
+    // without a model any F goes, to watch runs beyond the threshold
+    expect(configErrors(DEFAULT_NETWORK_CONFIG, 4, 2)).toEqual([]);
+    const noRounds = { ...DEFAULT_NETWORK_CONFIG.node, maxRounds: 0 };
+    expect(configErrors({ ...DEFAULT_NETWORK_CONFIG, node: noRounds }, 3, 0)).toEqual([
+      "maxRounds must be a positive integer, or null for unbounded rounds",
+    ]);
+
+    await expect(
+      launchNetwork(4, 2, [1, 1, 1, 1], [false, false, true, true], {
+        simulation: createSimulation(1),
+        config: { faultModel: "crash" },
+      })
+    ).rejects.toThrow("F must be below N/2 for crash faults");
+
+    // lying strategies call for the Byzantine bound unless the launch opts out
+    const launchLiar = (config?: NetworkConfigInput) =>
+      launchNetwork(5, 1, [1, 1, 1, 1, 1], [false, false, false, false, true], {
+        simulation: createSimulation(1),
+        faults: { 4: equivocate() },
+        ...(config ? { config } : {}),
+      });
+    await expect(launchLiar()).rejects.toThrow("F must be below N/5 for Byzantine faults");
+    await expect(launchLiar({ faultModel: null })).resolves.toHaveLength(5);
+  });
+
+  it("Stops at the round cap unless rounds are unbounded", async () => {
+    const capped = await simulate({ maxRounds: 1 });
+    expect(capped.every((state) => state.k === 1 && state.decided === false)).toBe(true);
+
+    const unbounded = await simulate({ maxRounds: null });
+    expect(unbounded.every((state) => state.decided)).toBe(true);
+  });
+});
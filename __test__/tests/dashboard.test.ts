@@ -0,0 +1,92 @@
+import express from "express";
+import { dashboardRoutes } from "../../src/dashboard";
+import { launchNetwork } from "../../src/index";
+import { startConsensus, stopConsensus } from "../../src/nodes/consensus";
+import { launchObserver, NetworkSummary } from "../../src/nodes/observer";
+import { createTraceRecorder } from "../../src/trace";
+import { createMemoryTransport } from "../../src/transport";
+
+const PORT = 2100;
+
+// reads the event stream until an event of each given type went by
+async function readEvents(response: Response, types: string[]) {
+  if (response.body === null) throw new Error("No event stream");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  while (!types.every((type) => text.includes(`event: ${type}\n`))) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value);
+  }
+  await reader.cancel();
+  return text;
+}
+
+describe("Dashboard", () => {
+  it("Streams the network live and stops nodes or injects faults on demand", async () => {
+    const transport = createMemoryTransport();
+    const trace = createTraceRecorder();
+    await launchNetwork(4, 1, [1, 0, 1, 1], [false, false, false, true], { transport, trace });
+    const server = await launchObserver(4, { transport, trace, interval: 50 }, PORT);
+
+    try {
+      const page = await fetch(`http://localhost:${PORT}/dashboard`);
+      expect(page.headers.get("content-type")).toContain("text/html");
+      expect(await page.text()).toContain('new EventSource("/events")');
+
+      const events = await fetch(`http://localhost:${PORT}/events`);
+      expect(events.headers.get("content-type")).toBe("text/event-stream");
+      await startConsensus(4, transport);
+      const text = await readEvents(events, ["summary", "trace"]);
+      const summary = JSON.parse(
+        (text.split("event: summary\ndata: ")[1] ?? "").split("\n")[0] ?? "null"
+      );
+      expect(summary.N).toBe(4);
+
+      const fault = await fetch(`http://localhost:${PORT}/nodes/2/fault`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ strategy: "equivocate" }),
+      });
+      expect(fault.status).toBe(200);
+      const unknown = await fetch(`http://localhost:${PORT}/nodes/1/fault`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ strategy: "teleport" }),
+      });
+      expect(unknown.status).toBe(400);
+      await fetch(`http://localhost:${PORT}/nodes/0/stop`, { method: "POST" });
+
+      expect((await transport.getState(0)).killed).toBe(true);
+      // an injected fault makes the node look faulty like the launched ones
+      expect((await transport.getState(2)).x).toBeNull();
+    } finally {
+      await stopConsensus(4, transport);
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+
+  it("Skips the summaries that could not be gathered", async () => {
+    let calls = 0;
+    const summary = async () => {
+      calls++;
+      if (calls === 1) throw new Error("Node 0 could not be reached");
+      return { N: 1 } as NetworkSummary<unknown>;
+    };
+    const app = express();
+    app.use(dashboardRoutes({ N: 1, transport: createMemoryTransport(), summary, interval: 20 }));
+    const server = app.listen(PORT + 1);
+
+    try {
+      const events = await fetch(`http://localhost:${PORT + 1}/events`);
+      const text = await readEvents(events, ["summary"]);
+      expect(calls).toBeGreaterThan(1);
+      expect(text).toContain('data: {"N":1}');
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import { createLocalCoin } from "../../src/coins";
+import { launchNetwork } from "../../src/index";
+import { startConsensus } from "../../src/nodes/consensus";
+import {
+  crashAtRound,
+  delayAndReplay,
+  equivocate,
+  FaultContext,
+  FaultStrategy,
+  randomValues,
+  voteMinority,
+} from "../../src/faults";
+import { PROTOCOL_VERSION } from "../../src/protocol";
+import { createSimulation } from "../../src/simulation";
+import { Message, Value } from "../../src/types";
+
+const message: Message = {
+  version: PROTOCOL_VERSION,
+  instance: "default",
+  phase: 1,
+  round: 1,
+  sender: 0,
+  value: 1,
+  timestamp: 0,
+};
+
+async function simulate(seed: number, faults: Record<number, FaultStrategy>) {
+  const N = 11;
+  const faultyArray = new Array(N).fill(false).map((_, i) => i in faults);
+  const initialValues: Value[] = [0, 1, 0, 1, 1, 0, 1, 1, 0, 1, 1];
+
+  const simulation = createSimulation(seed);
+  await launchNetwork(
+    N,
+    faultyArray.filter((el) => el === true).length,
+    initialValues,
+    faultyArray,
+    { simulation, faults, config: { faultModel: "byzantine" } }
+  );
+
+  await startConsensus(N, simulation.transport);
+  await simulation.run();
+
+  const states = await Promise.all(
+    faultyArray.map((_, index) => simulation.transport.getState(index))
+  );
+
+  return states.filter((_, index) => !faultyArray[index]);
+}
+
+describe("Byzantine fault strategies", () => {
+  const strategies: [string, () => FaultStrategy][] = [
+    ["crash at round 2", () => crashAtRound(2)],
+    ["equivocation", equivocate],
+    ["minority votes", voteMinority],
+    ["random values", randomValues],
+    ["delayed and replayed messages", () => delayAndReplay(20)],
+  ];
+
+  it.each(strategies)("Correct nodes agree despite %s", async (_, strategy) => {
+    const states = await simulate(7, { 0: strategy(), 5: strategy() });
+
+    expect(states.every((state) => state.decided)).toBe(true);
+    expect(states.every((state) => state.x === states[0].x)).toBe(true);
+  });
+
+  it("Replays only the previous message to a peer", () => {
+    const strategy = delayAndReplay(10);
+    const context = {} as FaultContext;
+    const sent = [1, 2, 3].map((round) =>
+      strategy.intercept({ ...message, round }, 1, context).map((out) => out.message.round)
+    );
+
+    expect(sent).toEqual([[1], [2, 1], [3, 2]]);
+  });
+
+  it("Rejects a strategy for a correct node", async () => {
+    await expect(
+      launchNetwork(3, 0, [1, 1, 1], [false, false, false], {
+        simulation: createSimulation(1),
+        faults: { 1: equivocate() },
+      })
+    ).rejects.toThrow("Fault strategies can only be given to faulty nodes");
+  });
+
+  it("Keeps agreement against an equivocator targeting single peers", async () => {
+    // reports 1 to node 1 only, then proposes 1 to node 0 only and 0 to the
+    // others: with crash thresholds node 0 decides 1 while the others decide 0
+    const targeted: FaultStrategy = {
+      name: "targeted",
+      intercept(message, to) {
+        const value = message.phase === 1 ? Number(to === 1) : Number(to === 0);
+        return [{ message: { ...message, value } }];
+      },
+    };
+
+    for (let seed = 225; seed < 235; seed++) {
+      const simulation = createSimulation(seed);
+      await launchNetwork(6, 1, [1, 1, 1, 0, 0, 0], [false, false, false, false, false, true], {
+        simulation,
+        faults: { 5: targeted },
+        // the seeds that showed the bug flipped coins of their own
+        coin: createLocalCoin(simulation.random),
+        config: { faultModel: "byzantine", node: { maxRounds: null } },
+      });
+      await startConsensus(6, simulation.transport);
+      await simulation.run({ maxTime: 600000 });
+
+      const states = await Promise.all(
+        [0, 1, 2, 3, 4].map((index) => simulation.transport.getState(index))
+      );
+      expect(states.every((state) => state.decided)).toBe(true);
+      expect(new Set(states.map((state) => state.x)).size).toBe(1);
+    }
+  });
+
+  it("Decides only on proposals every correct node can adopt", async () => {
+    // reports 1 to nodes 0 and 1, proposes 1 to node 0 alone in the first round,
+    // then sends 0. With 2F + 1 proposals enough to decide, node 0 decided 1 in
+    // the first round on these seeds while the others flipped their way to 0
+    const adversary = (): FaultStrategy => ({
+      name: "adversary",
+      intercept(message, to) {
+        let value: Value = 0;
+        if (message.round === 1 && message.phase === 1) value = to <= 1 ? 1 : 0;
+        if (message.round === 1 && message.phase === 2) value = to === 0 ? 1 : "?";
+        return [{ message: { ...message, value } }];
+      },
+    });
+
+    for (const seed of [23, 64, 159, 237, 245, 295, 297, 313, 328, 347, 374, 379]) {
+      const simulation = createSimulation(seed);
+      await launchNetwork(6, 1, [1, 1, 1, 0, 0, 0], [false, false, false, false, false, true], {
+        simulation,
+        faults: { 5: adversary() },
+        coin: createLocalCoin(simulation.random),
+        config: { faultModel: "byzantine", node: { maxRounds: null } },
+      });
+      await startConsensus(6, simulation.transport);
+      await simulation.run({ maxTime: 600000 });
+
+      const states = await Promise.all(
+        [0, 1, 2, 3, 4].map((index) => simulation.transport.getState(index))
+      );
+      expect(states.every((state) => state.decided)).toBe(true);
+      expect(new Set(states.map((state) => state.x)).size).toBe(1);
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import * as path from "path";
+import { fuzz, loadFixtures, runScenario, Scenario, shrink } from "../../src/fuzz";
+
+const FIXTURES = path.join(__dirname, "../fixtures/scenarios");
+
+describe("Scenario fuzzing", () => {
+  it("Finds no safety violation over sampled scenarios", async () => {
+    const { failures } = await fuzz({ runs: 20, seed: 1, maxN: 8 });
+
+    expect(failures).toEqual([]);
+  }, 60000);
+
+  it("Shrinks a failing scenario down to a minimal one", async () => {
+    const scenario: Scenario = {
+      seed: 5,
+      N: 7,
+      F: 3,
+      initialValues: [1, 0, 1, 1, 0, 1, 1],
+      faultyList: [false, true, false, true, false, true, false],
+      faults: { 1: { strategy: "crash-at-round", arg: 2 } },
+      network: { duplicateRate: 0.1 },
+    };
+
+    // stands for any bug that needs a faulty node next to two correct ones
+    const minimal = await shrink(
+      scenario,
+      async (candidate) => candidate.N >= 3 && candidate.F >= 1
+    );
+
+    expect(minimal).toEqual({
+      seed: 5,
+      N: 3,
+      F: 1,
+      initialValues: [0, 0, 0],
+      faultyList: [false, true, false],
+      faults: {},
+    });
+  });
+
+  it("Shrinks within the fault tolerance of the scenario", async () => {
+    const scenario: Scenario = {
+      seed: 8,
+      N: 9,
+      F: 2,
+      initialValues: [1, 1, 0, 1, 0, 1, 1, 0, 1],
+      faultyList: [false, true, false, false, false, false, true, false, false],
+      faults: { 1: { strategy: "equivocate" }, 6: { strategy: "crash-at-round", arg: 1 } },
+    };
+
+    // fails as long as a node equivocates
+    const minimal = await shrink(scenario, async (candidate) =>
+      Object.values(candidate.faults).some((spec) => spec.strategy === "equivocate")
+    );
+
+    // one node fewer than that and the equivocator would be past N > 5F
+    expect(minimal).toMatchObject({ N: 6, F: 1 });
+    const faulty = minimal.faultyList.indexOf(true);
+    expect(minimal.faults).toEqual({ [faulty]: { strategy: "equivocate" } });
+  });
+
+  Object.entries(loadFixtures(FIXTURES)).forEach(([name, scenario]) => {
+    it(`Replays regression fixture ${name}`, async () => {
+      const { violations } = await runScenario(scenario, { roundBudget: 20 });
+
+      expect(violations).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { FaultStrategy } from "../../src/faults";
+import { launchNetwork } from "../../src/index";
+import { startConsensus, startInstance } from "../../src/nodes/consensus";
+import { createSimulation } from "../../src/simulation";
+import { Value } from "../../src/types";
+
+describe("Multiple consensus instances", () => {
+  it("Decides independent instances on the same nodes", async () => {
+    const faultyArray = [false, false, false, true, false];
+    const simulation = createSimulation(5);
+
+    await launchNetwork(5, 1, [1, 1, 1, 1, 1], faultyArray, { simulation });
+
+    const inputs: Record<string, Value[]> = {
+      a: [0, 0, 0, 0, 0],
+      b: [1, 1, 1, 1, 1],
+      c: [0, 1, 1, 0, 1],
+    };
+    for (const [id, values] of Object.entries(inputs)) {
+      await startInstance(id, values, simulation.transport);
+    }
+    await simulation.run();
+
+    for (const id of Object.keys(inputs)) {
+      const states = await Promise.all(
+        faultyArray.map((_, index) => simulation.transport.getState(index, id))
+      );
+      const correct = states.filter((_, index) => !faultyArray[index]);
+
+      expect(correct.every((state) => state.decided)).toBe(true);
+      expect(correct.every((state) => state.x === correct[0].x)).toBe(true);
+      if (id === "a") expect(correct[0].x).toBe(0);
+      if (id === "b") expect(correct[0].x).toBe(1);
+    }
+
+    // the instance the network was launched for was never started
+    expect((await simulation.transport.getState(0)).k).toBe(0);
+    await expect(simulation.transport.getState(0, "unknown")).rejects.toThrow();
+  });
+});
+
+describe("Multi-valued consensus", () => {
+  async function simulate<V>(
+    seed: number,
+    initialValues: V[],
+    faultyArray: boolean[],
+    faults: Record<number, FaultStrategy> = {}
+  ) {
+    const simulation = createSimulation(seed);
+    await launchNetwork(
+      faultyArray.length,
+      faultyArray.filter((el) => el === true).length,
+      initialValues,
+      faultyArray,
+      { simulation, faults }
+    );
+
+    await startConsensus(faultyArray.length, simulation.transport);
+    await simulation.run();
+
+    const states = await Promise.all(
+      faultyArray.map((_, index) => simulation.transport.getState(index))
+    );
+    return states.filter((_, index) => !faultyArray[index]);
+  }
+
+  it("Decides the value held by a majority", async () => {
+    const states = await simulate(
+      3,
+      ["blue", "blue", "red", "blue", "blue"],
+      [false, false, false, false, true]
+    );
+
+    states.forEach((state) => {
+      expect(state.decided).toBe(true);
+      expect(state.x).toBe("blue");
+    });
+  });
+
+  it("Agrees on config blobs whatever their key order", async () => {
+    const states = await simulate(
+      4,
+      [{ a: 1, b: [2] }, { b: [2], a: 1 }, { a: 1, b: [2] }, { a: 2 }],
+      [false, false, false, false]
+    );
+
+    states.forEach((state) => {
+      expect(state.decided).toBe(true);
+      expect(state.x).toEqual({ a: 1, b: [2] });
+    });
+  });
+
+  it("Takes no value a single faulty node echoed", async () => {
+    // echoes a value of its own, as soon as it can to be the first one heard
+    const forger: FaultStrategy = {
+      name: "forger",
+      intercept: (message) => [
+        { message: message.phase === 2 ? { ...message, value: "forged" } : message },
+      ],
+    };
+
+    for (let seed = 1; seed <= 5; seed++) {
+      const states = await simulate(
+        seed,
+        ["blue", "blue", "blue", "blue", "blue", "blue"],
+        [false, false, false, false, false, true],
+        { 5: forger }
+      );
+      states.forEach((state) => expect(state.x).toBe("blue"));
+    }
+  });
+
+  it("Decides no value when the inputs are split", async () => {
+    const states = await simulate(5, ["a", "b", "c", "d"], [false, false, false, false]);
+
+    states.forEach((state) => {
+      expect(state.decided).toBe(true);
+      expect(state.x).toBe("?");
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { launchNetwork } from "../../src/index";
+import { createSimulation } from "../../src/simulation";
+import { createHttpTransport, createMemoryTransport } from "../../src/transport";
+
+const PORT = 4400;
+
+describe("Network lifecycle", () => {
+  it("Starts, awaits the decision, stops a node and frees its ports on close", async () => {
+    const transport = createHttpTransport(PORT);
+    const network = await launchNetwork(3, 0, [1, 1, 0], [false, false, false], { transport });
+
+    try {
+      await network.start();
+      const summary = await network.awaitDecision({ timeout: 5000 });
+      expect(summary.finality).toBe(true);
+      expect(summary.decidedValue).toBe(1);
+
+      await network.stopNode(2);
+      expect((await transport.getState(2)).killed).toBe(true);
+    } finally {
+      await network.close();
+    }
+    expect(network.every((server) => !server.listening)).toBe(true);
+
+    // the ports are free again for the next network
+    const next = await launchNetwork(3, 0, [0, 0, 0], [false, false, false], { transport });
+    await next.close();
+  });
+
+  it("Rejects when the nodes don't decide in time", async () => {
+    // two correct nodes with split inputs can't reach the F + 1 = 3 matching proposals
+    const network = await launchNetwork(4, 2, [0, 1, 1, 1], [false, false, true, true], {
+      simulation: createSimulation(1),
+    });
+    await network.start();
+
+    await expect(network.awaitDecision({ timeout: 100 })).rejects.toThrow(
+      "No decision within 100 virtual ms"
+    );
+  });
+
+  it("Aborts the messages on their way when closed", async () => {
+    const delivered: number[] = [];
+    const transport = createMemoryTransport({
+      latency: () => 60000,
+      onDeliver: (to) => delivered.push(to),
+    });
+    const network = await launchNetwork(3, 0, [1, 1, 1], [false, false, false], {
+      transport,
+      config: { node: { sendTimeout: 120000 } },
+    });
+    await network.start();
+
+    // nothing keeps the process busy once closed, or jest would report the open timers
+    await network.close();
+    expect(delivered).toEqual([]);
+    expect((await transport.getState(0)).killed).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+import { createPublicKey } from "crypto";
+import * as http from "http";
+import { createNetworkKeys, exportPublicKey, NodeKeys } from "../../src/auth";
+import { launchNetwork } from "../../src/index";
+import { startConsensus, startInstance, stopConsensus } from "../../src/nodes/consensus";
+import { launchJoiningNode } from "../../src/nodes/launchNodes";
+import { applyChange, initialConfiguration, MembershipSnapshot } from "../../src/membership";
+import { validateMembershipRequest } from "../../src/protocol";
+import { createSimulation } from "../../src/simulation";
+import { createHttpTransport } from "../../src/transport";
+import { NodeState } from "../../src/types";
+import { delay } from "../../src/utils";
+
+describe("Dynamic membership", () => {
+  it("Admits and removes nodes through configuration epochs", async () => {
+    const simulation = createSimulation(17);
+    const { transport } = simulation;
+    await launchNetwork(4, 1, [1, 1, 1, 1], [false, false, false, true], { simulation });
+    await transport.submit(0, "a");
+
+    // node 4 joins through node 0 and takes over its log
+    await launchJoiningNode(4, 4, 1, 0, { simulation });
+    let joined: MembershipSnapshot | undefined;
+    await simulation.run({
+      maxTime: 60000,
+      until: () => {
+        transport.getMembership(4).then((snapshot) => (joined = snapshot));
+        return joined !== undefined && joined.entries.length === 2;
+      },
+    });
+    expect(joined?.configuration).toEqual({
+      epoch: 1,
+      members: [0, 1, 2, 3, 4],
+      F: 1,
+      faultModel: null,
+      resilience: 1,
+    });
+    expect(joined?.entries.map((entry) => entry.data)).toEqual([
+      "a",
+      expect.objectContaining({ membership: "join", node: 4 }),
+    ]);
+
+    // instances started from now on wait for N - F = 4 of the 5 members
+    await startInstance("after-join", [0, 1, 1, 1, 0], transport);
+    await simulation.run({ maxTime: 120000 });
+    const states: NodeState<unknown>[] = await Promise.all(
+      [0, 1, 2, 4].map((index) => transport.getState(index, "after-join"))
+    );
+    expect(states.every((state) => state.decided)).toBe(true);
+    expect(new Set(states.map((state) => state.x)).size).toBe(1);
+
+    // node 1 leaves: it stops and the others carry on with the 4 remaining members
+    await transport.changeMembership(2, { membership: "leave", node: 1 });
+    await transport.submit(4, "b");
+    const logs: Record<number, unknown[]> = {};
+    await simulation.run({
+      maxTime: 240000,
+      until: () => {
+        [0, 2, 4].forEach((index) => {
+          transport.getLog(index).then((log) => (logs[index] = log.map((entry) => entry.data)));
+        });
+        return [0, 2, 4].every((index) => logs[index]?.length === 4);
+      },
+    });
+    expect(logs[2]).toEqual(logs[0]);
+    expect(logs[4]).toEqual(logs[0]);
+    expect((await transport.getState(1)).killed).toBe(true);
+    expect((await transport.getMembership(0)).configuration).toEqual({
+      epoch: 2,
+      members: [0, 2, 3, 4],
+      F: 1,
+      faultModel: null,
+      resilience: 1,
+    });
+  });
+
+  it("Refuses joins for the ids of members and of nodes that left", async () => {
+    const simulation = createSimulation(21);
+    const { transport } = simulation;
+    await launchNetwork(4, 1, [1, 1, 1, 1], [false, false, false, true], { simulation });
+    const { privateKey } = createNetworkKeys(1, 99)[0] as NodeKeys;
+    const publicKey = exportPublicKey(createPublicKey(privateKey));
+    const original = (await transport.getMembership(0)).publicKeys[1];
+
+    await expect(
+      transport.changeMembership(0, { membership: "join", node: 1, publicKey })
+    ).rejects.toThrow("Node 0 refused the membership change");
+    expect(
+      validateMembershipRequest({ node: 1, publicKey }, "join", (node) => node === 1)
+    ).toMatchObject({ ok: false, error: { code: "malformed", field: "node" } });
+
+    // node 3 leaves, then a join for its id and one for node 1 are committed
+    // without going through the check, as two racing joins would be
+    await transport.changeMembership(0, { membership: "leave", node: 3 });
+    await transport.submit(0, { membership: "join", node: 3, publicKey });
+    await transport.submit(0, { membership: "join", node: 1, publicKey });
+    let logs: unknown[][] = [];
+    await simulation.run({
+      maxTime: 120000,
+      until: () => {
+        Promise.all([0, 1, 2].map((index) => transport.getLog(index))).then(
+          (entries) => (logs = entries)
+        );
+        return logs.length === 3 && logs.every((log) => log.length === 3);
+      },
+    });
+
+    const snapshots = await Promise.all([0, 1, 2].map((index) => transport.getMembership(index)));
+    snapshots.forEach((snapshot) => {
+      expect(snapshot.configuration).toMatchObject({ epoch: 1, members: [0, 1, 2], F: 1 });
+      expect(snapshot.publicKeys[1]).toBe(original);
+    });
+    await expect(
+      transport.changeMembership(0, { membership: "join", node: 3, publicKey })
+    ).rejects.toThrow("Node 0 refused the membership change");
+  });
+
+  it("Lowers F to what the members tolerate and raises it back on joins", () => {
+    const join = (node: number) => ({ membership: "join" as const, node, publicKey: "" });
+    const leave = (node: number) => ({ membership: "leave" as const, node });
+
+    // lying nodes need N > 5F: 6 members tolerate 1, 5 none
+    let byzantine = applyChange(initialConfiguration(6, 1, "byzantine"), leave(5));
+    expect(byzantine).toMatchObject({ epoch: 1, members: [0, 1, 2, 3, 4], F: 0 });
+    byzantine = applyChange(byzantine, join(6));
+    expect(byzantine).toMatchObject({ epoch: 2, F: 1, resilience: 1 });
+    byzantine = applyChange(byzantine, join(7));
+    expect(byzantine).toMatchObject({ epoch: 3, F: 1 });
+
+    // crashing nodes need N > 2F: 3 members tolerate 1, 5 members tolerate 2 again
+    let crash = applyChange(initialConfiguration(5, 2, "crash"), leave(4));
+    crash = applyChange(crash, leave(3));
+    expect(crash).toMatchObject({ members: [0, 1, 2], F: 1 });
+    crash = applyChange(applyChange(crash, join(5)), join(6));
+    expect(crash).toMatchObject({ members: [0, 1, 2, 5, 6], F: 2 });
+  });
+
+  it("Reaches nodes at explicit peer addresses", async () => {
+    const transport = createHttpTransport(4100, { 0: "http://localhost:4250" });
+    const servers: http.Server[] = await launchNetwork(2, 0, [1, 1], [false, false], {
+      transport,
+    });
+    expect(servers.map((server) => (server.address() as { port: number }).port)).toEqual([
+      4250, 4101,
+    ]);
+
+    await startConsensus(2, transport);
+    let states = await Promise.all([0, 1].map((index) => transport.getState(index)));
+    for (let attempt = 0; attempt < 40 && !states.every((state) => state.decided); attempt++) {
+      await delay(50);
+      states = await Promise.all([0, 1].map((index) => transport.getState(index)));
+    }
+
+    await stopConsensus(2, transport);
+    servers.forEach((server) => server.close());
+    expect(states.map((state) => state.x)).toEqual([1, 1]);
+  });
+});
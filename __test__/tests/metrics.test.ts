@@ -0,0 +1,80 @@
+import { launchNetwork } from "../../src/index";
+import { collectMetrics, createMetricRegistry, toPrometheus } from "../../src/metrics";
+import { startConsensus } from "../../src/nodes/consensus";
+import { launchObserver } from "../../src/nodes/observer";
+import { createSimulation } from "../../src/simulation";
+
+const PORT = 2200;
+
+describe("Metrics", () => {
+  it("Formats counters and cumulative histogram buckets", () => {
+    const registry = createMetricRegistry();
+    const sent = registry.counter("sent_total", "Messages sent");
+    const latency = registry.histogram("latency_ms", "Latency", [10, 100]);
+    sent.inc({ type: "report" });
+    sent.inc({ type: "report" }, 2);
+    latency.observe({}, 5);
+    latency.observe({}, 50);
+
+    expect(toPrometheus(registry.collect())).toBe(
+      [
+        "# HELP sent_total Messages sent",
+        "# TYPE sent_total counter",
+        'sent_total{type="report"} 3',
+        "# HELP latency_ms Latency",
+        "# TYPE latency_ms histogram",
+        'latency_ms_bucket{le="10"} 1',
+        'latency_ms_bucket{le="100"} 2',
+        'latency_ms_bucket{le="+Inf"} 2',
+        "latency_ms_sum 55",
+        "latency_ms_count 2",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("Escapes backslashes, quotes and newlines in label values", () => {
+    const registry = createMetricRegistry();
+    registry.counter("decisions_total", "Decisions").inc({ instance: 'a\\b"c\nd 1' });
+
+    expect(toPrometheus(registry.collect()).split("\n")[2]).toBe(
+      'decisions_total{instance="a\\\\b\\"c\\nd 1"} 1'
+    );
+  });
+
+  it("Measures a run on every node and merges the nodes' metrics", async () => {
+    const simulation = createSimulation(3);
+    const { transport } = simulation;
+    await launchNetwork(4, 1, [1, 0, 1, 1], [false, false, false, true], { simulation });
+    await startConsensus(4, transport);
+    await simulation.run();
+
+    const families = await transport.getMetrics(0);
+    const family = (name: string) => families.find((el) => el.name === name);
+    const rounds = family("benor_rounds_to_decision");
+    expect(rounds?.type === "histogram" && rounds.samples[0]?.count).toBe(1);
+    expect(family("benor_messages_sent_total")?.samples).toContainEqual({
+      labels: { type: "report" },
+      value: expect.any(Number),
+    });
+
+    const merged = await collectMetrics(4, transport);
+    expect(merged[0]).toMatchObject({
+      name: "benor_up",
+      samples: [0, 1, 2, 3].map((node) => ({ labels: { node: String(node) }, value: 1 })),
+    });
+    const text = toPrometheus(merged);
+    expect(text).toMatch(/^benor_round\{instance="default",node="2"\} \d+$/m);
+    expect(text).toMatch(/^benor_decision_latency_ms_count\{node="1"\} 1$/m);
+
+    // the observer serves the merged metrics as a single scrape target
+    const server = await launchObserver(4, { transport }, PORT);
+    try {
+      const response = await fetch(`http://localhost:${PORT}/metrics`);
+      expect(response.headers.get("content-type")).toContain("text/plain");
+      expect(await response.text()).toContain('benor_up{node="3"} 1');
+    } finally {
+      server.close();
+    }
+  });
+});
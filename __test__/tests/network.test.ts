@@ -0,0 +1,197 @@
+import express from "express";
+import { launchNetwork } from "../../src/index";
+import { createNetworkConditions } from "../../src/network";
+import { launchObserver } from "../../src/nodes/observer";
+import { Message, PROTOCOL_VERSION } from "../../src/protocol";
+import { startConsensus } from "../../src/nodes/consensus";
+import { createRandom, createSimulation } from "../../src/simulation";
+import { createMemoryTransport, NodeEndpoint } from "../../src/transport";
+import { NodeState, Value } from "../../src/types";
+
+const PORT = 2350;
+
+const message: Message = {
+  version: PROTOCOL_VERSION,
+  instance: "default",
+  phase: 1,
+  round: 1,
+  sender: 0,
+  value: 1,
+  timestamp: 0,
+};
+
+// two endpoints behind a network split between them, node 1 counts what it receives
+async function splitPair(seed: number) {
+  const simulation = createSimulation(seed);
+  const network = createNetworkConditions(
+    { partitions: { split: [[0], [1]] } },
+    { clock: simulation.clock, random: createRandom(seed) }
+  );
+  const transport = network.wrap(createMemoryTransport({ clock: simulation.clock }));
+  const receive = jest.fn(() => true);
+  const endpoint = (nodeId: number) => ({ nodeId, receive }) as unknown as NodeEndpoint;
+  const servers = [
+    await transport.listen(endpoint(0), express()),
+    await transport.listen(endpoint(1), express()),
+  ];
+  return { simulation, network, transport, receive, servers };
+}
+
+describe("Network conditions", () => {
+  it("Reaches agreement despite latency, duplicates and reordering", async () => {
+    const simulation = createSimulation(7);
+    const network = createNetworkConditions(
+      {
+        default: {
+          latency: { type: "exponential", mean: 20 },
+          duplicateRate: 0.2,
+          reorderRate: 0.3,
+        },
+      },
+      { clock: simulation.clock, random: createRandom(7) }
+    );
+    const initialValues: Value[] = [0, 1, 1, 0, 1];
+    const faultyArray = initialValues.map(() => false);
+    await launchNetwork(5, 0, initialValues, faultyArray, { simulation, network });
+
+    await startConsensus(5, simulation.transport);
+    await simulation.run({ maxTime: 60000 });
+
+    const states = await Promise.all(
+      faultyArray.map((_, index) => simulation.transport.getState(index))
+    );
+    const decided = states.map((state) => state.x);
+    expect(states.every((state) => state.decided)).toBe(true);
+    expect(new Set(decided).size).toBe(1);
+    expect(states.some((state) => (state.rejected?.duplicate ?? 0) > 0)).toBe(true);
+  });
+
+  it("Sends lost messages again until they get through", async () => {
+    const simulation = createSimulation(11);
+    const network = createNetworkConditions(
+      { default: { latency: { type: "uniform", min: 5, max: 20 }, dropRate: 0.2 } },
+      { clock: simulation.clock, random: createRandom(11) }
+    );
+    const initialValues: Value[] = [0, 1, 1, 0, 1];
+    const faultyArray = [false, false, false, false, true];
+    await launchNetwork(5, 1, initialValues, faultyArray, { simulation, network });
+
+    await startConsensus(5, simulation.transport);
+    await simulation.run({ maxTime: 60000 });
+
+    const states = await Promise.all(
+      [0, 1, 2, 3].map((index) => simulation.transport.getState(index))
+    );
+    expect(states.every((state) => state.decided)).toBe(true);
+    expect(new Set(states.map((state) => state.x)).size).toBe(1);
+  });
+
+  it("Reports a lost message to the sender", async () => {
+    const network = createNetworkConditions({ links: { "0->1": { dropRate: 1 } } });
+    const transport = network.wrap(createMemoryTransport());
+
+    await expect(transport.send(1, message, new AbortController().signal)).rejects.toThrow(
+      "Message to node 1 lost"
+    );
+  });
+
+  it("Holds messages across a partition until it heals", async () => {
+    const simulation = createSimulation(3);
+    const network = createNetworkConditions(
+      { partitions: { split: [[0, 1], [2, 3, 4]] } },
+      { clock: simulation.clock, random: createRandom(3) }
+    );
+    const initialValues: Value[] = [1, 1, 0, 0, 0];
+    const faultyArray = initialValues.map(() => false);
+    await launchNetwork(5, 0, initialValues, faultyArray, { simulation, network });
+
+    await startConsensus(5, simulation.transport);
+    await simulation.run({ maxTime: 1000 });
+
+    const getStates = () =>
+      Promise.all(faultyArray.map((_, index) => simulation.transport.getState(index)));
+    let states: NodeState<unknown>[] = await getStates();
+    expect(states.some((state) => state.decided)).toBe(false);
+    expect(network.held()).toBeGreaterThan(0);
+
+    network.heal("split");
+    await simulation.run({ maxTime: 60000 });
+
+    states = await getStates();
+    expect(network.held()).toBe(0);
+    expect(states.every((state) => state.decided)).toBe(true);
+    expect(new Set(states.map((state) => state.x)).size).toBe(1);
+  });
+
+  it("Drops held messages once their sender gives up on them or closes", async () => {
+    const { simulation, network, transport, receive, servers } = await splitPair(5);
+
+    const request = new AbortController();
+    await transport.send(1, message, request.signal);
+    await simulation.run({ maxTime: 100 });
+    expect(network.held()).toBe(1);
+    request.abort();
+    expect(network.held()).toBe(0);
+
+    await transport.send(1, message, new AbortController().signal);
+    await simulation.run({ maxTime: 200 });
+    expect(network.held()).toBe(1);
+    await new Promise((resolve) => servers[0]?.close(resolve));
+    expect(network.held()).toBe(0);
+
+    network.heal();
+    await simulation.run({ maxTime: 300 });
+    expect(receive).not.toHaveBeenCalled();
+  });
+
+  it("Releases held messages when a partition is replaced", async () => {
+    const { simulation, network, transport, receive } = await splitPair(6);
+
+    await transport.send(1, message, new AbortController().signal);
+    await simulation.run({ maxTime: 100 });
+    expect(network.held()).toBe(1);
+
+    network.partition("split", [[0, 1]]);
+    await simulation.run({ maxTime: 200 });
+    expect(network.held()).toBe(0);
+    expect(receive).toHaveBeenCalledTimes(1);
+  });
+
+  it("Changes partitions through the admin routes", async () => {
+    const network = createNetworkConditions();
+    const server = await launchObserver(2, { transport: createMemoryTransport(), network }, PORT);
+    const post = (path: string, body?: unknown) =>
+      fetch(`http://localhost:${PORT}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      });
+
+    try {
+      const invalid = await post("/network/partition", { name: "split", groups: [[0], ["1"]] });
+      expect(invalid.status).toBe(400);
+
+      let response = await post("/network/partition", { name: "split", groups: [[0], [1]] });
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ split: [[0], [1]] });
+      await post("/network/partition", { name: "other", groups: [[0, 1], [2]] });
+
+      response = await fetch(`http://localhost:${PORT}/network/conditions`);
+      expect(await response.json()).toMatchObject({
+        partitions: { split: [[0], [1]], other: [[0, 1], [2]] },
+        held: 0,
+      });
+
+      response = await fetch(`http://localhost:${PORT}/network/partition/split`, {
+        method: "DELETE",
+      });
+      expect(await response.json()).toEqual({ other: [[0, 1], [2]] });
+
+      response = await post("/network/heal");
+      expect(await response.json()).toEqual({});
+      expect(network.conditions().partitions).toEqual({});
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import { launchNetwork } from "../../src/index";
+import { getNetworkSummary, launchObserver } from "../../src/nodes/observer";
+import { createSimulation } from "../../src/simulation";
+import { createMemoryTransport, Transport } from "../../src/transport";
+import { NodeState } from "../../src/types";
+
+const PORT = 2300;
+
+// a transport handing out fixed states, rejecting for the nodes without one
+function fixedStates(states: (NodeState | null)[]): Transport {
+  return {
+    ...createMemoryTransport(),
+    async getState(nodeId: number) {
+      const state = states[nodeId];
+      if (!state) throw new Error(`Node ${nodeId} unreachable`);
+      return state;
+    },
+  };
+}
+
+describe("Observer", () => {
+  it("Summarizes a network that decided", async () => {
+    const simulation = createSimulation(3);
+    const network = await launchNetwork(5, 1, [1, 1, 0, 1, 1], [false, false, false, false, true], {
+      simulation,
+    });
+    await network.start();
+    await network.awaitDecision();
+    await network.stopNode(3);
+
+    const summary = await getNetworkSummary(5, {
+      transport: simulation.transport,
+      initialValues: [1, 1, 0, 1, 1],
+    });
+    expect(summary).toMatchObject({
+      N: 5,
+      decidedValue: 1,
+      finality: true,
+      breakdown: { live: 3, killed: 1, faulty: 1, unreachable: 0 },
+      violations: [],
+    });
+    expect(summary.nodes[4]).toEqual({ killed: false, x: null, decided: null, k: null });
+    // every correct node is counted at the round it stopped in
+    expect(Object.values(summary.rounds).reduce((a, b) => a + b, 0)).toBe(4);
+  });
+
+  it("Counts the nodes it can't reach and reports conflicting decisions", async () => {
+    const transport = fixedStates([
+      { killed: false, x: 0, decided: true, k: 2 },
+      { killed: false, x: 1, decided: true, k: 3 },
+      null,
+      { killed: false, x: 1, decided: false, k: 3 },
+    ]);
+
+    const summary = await getNetworkSummary(4, { transport });
+    expect(summary.nodes[2]).toBeNull();
+    expect(summary.breakdown).toEqual({ live: 3, killed: 0, faulty: 0, unreachable: 1 });
+    expect(summary.rounds).toEqual({ 2: 1, 3: 2 });
+    expect(summary.decidedValue).toBeNull();
+    expect(summary.finality).toBe(false);
+    expect(summary.violations.map((violation) => violation.property)).toEqual(["agreement"]);
+  });
+
+  it("Serves the summary on GET /network", async () => {
+    const transport = fixedStates([{ killed: true, x: 1, decided: false, k: 4 }, null]);
+    const server = await launchObserver(2, { transport }, PORT);
+
+    try {
+      const response = await fetch(`http://localhost:${PORT}/network`);
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        N: 2,
+        nodes: [{ killed: true }, null],
+        // a stopped node needs no decision, one out of reach is left out
+        finality: true,
+        breakdown: { live: 0, killed: 1, faulty: 0, unreachable: 1 },
+      });
+    } finally {
+      server.close();
+    }
+  });
+});
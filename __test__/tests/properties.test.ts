@@ -0,0 +1,69 @@
+import { launchNetwork } from "../../src/index";
+import { startConsensus } from "../../src/nodes/consensus";
+import { checkProperties } from "../../src/properties";
+import { createSimulation } from "../../src/simulation";
+import { createTraceRecorder, TraceEvent } from "../../src/trace";
+import { NodeState, Value } from "../../src/types";
+
+function state(x: Value | null, decided: boolean | null, k: number | null): NodeState {
+  return { killed: false, x, decided, k };
+}
+
+function decision(nodeId: number, round: number, value: Value): TraceEvent {
+  return {
+    type: "decision",
+    nodeId,
+    instance: "default",
+    round,
+    phase: 2,
+    timestamp: round,
+    time: 0,
+    data: { value },
+  };
+}
+
+describe("Property checker", () => {
+  it("Holds for a seeded run and its trace", async () => {
+    const simulation = createSimulation(11);
+    const trace = createTraceRecorder();
+    const faultyList = [false, true, false, false, false];
+    const initialValues: Value[] = [1, 0, 1, 0, 1];
+    await launchNetwork(5, 1, initialValues, faultyList, { simulation, trace });
+
+    await startConsensus(5, simulation.transport);
+    await simulation.run();
+
+    const states = await Promise.all(
+      faultyList.map((_, index) => simulation.transport.getState(index))
+    );
+    expect(checkProperties({ initialValues, states, roundBudget: 20 })).toEqual([]);
+    expect(
+      checkProperties({ initialValues, faultyList, trace: trace.events, roundBudget: 20 })
+    ).toEqual([]);
+  });
+
+  it("Reports agreement and validity violations with the nodes involved", () => {
+    const violations = checkProperties({
+      initialValues: [1, 1, 1, 1],
+      states: [state(1, true, 1), state(0, true, 2), state(null, null, null), state(1, true, 1)],
+    });
+
+    expect(violations).toEqual([
+      expect.objectContaining({ property: "agreement", nodes: [0, 1, 3], rounds: [1, 2, 1] }),
+      expect.objectContaining({ property: "validity", nodes: [1], rounds: [2] }),
+    ]);
+  });
+
+  it("Reports nodes deciding twice and nodes out of the round budget", () => {
+    const violations = checkProperties({
+      faultyList: [false, false, false],
+      trace: [decision(0, 1, 1), decision(0, 3, 1), decision(1, 4, 1)],
+      roundBudget: 3,
+    });
+
+    expect(violations).toEqual([
+      expect.objectContaining({ property: "integrity", nodes: [0], rounds: [1, 3] }),
+      expect.objectContaining({ property: "termination", nodes: [1, 2], rounds: [4] }),
+    ]);
+  });
+});
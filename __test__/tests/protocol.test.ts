@@ -0,0 +1,114 @@
+import * as http from "http";
+import { launchNetwork } from "../../src/index";
+import { PROTOCOL_VERSION, validateLogEntry, validateMessage } from "../../src/protocol";
+import { createSimulation } from "../../src/simulation";
+import { createHttpTransport } from "../../src/transport";
+import { Message } from "../../src/types";
+
+const message: Message = {
+  version: PROTOCOL_VERSION,
+  instance: "default",
+  phase: 1,
+  round: 1,
+  sender: 1,
+  value: 0,
+  timestamp: 1,
+};
+
+describe("Wire protocol", () => {
+  it("Validates messages field by field", () => {
+    expect(validateMessage(message, false)).toEqual({ ok: true, value: message });
+    expect(validateMessage({ ...message, extra: true }, false)).toEqual({
+      ok: true,
+      value: message,
+    });
+
+    const errors = [
+      validateMessage(null, false),
+      validateMessage({ ...message, version: 0 }, false),
+      validateMessage({ ...message, round: "1" }, false),
+      validateMessage({ ...message, phase: 3 }, false),
+      validateMessage({ ...message, value: 7 }, false),
+      validateMessage({ ...message, value: undefined }, true),
+    ].map((validation) =>
+      validation.ok ? null : [validation.error.code, validation.error.field]
+    );
+    expect(errors).toEqual([
+      ["malformed", null],
+      ["version", "version"],
+      ["malformed", "round"],
+      ["malformed", "phase"],
+      ["malformed", "value"],
+      ["malformed", "value"],
+    ]);
+
+    // any JSON value goes through multi-valued nodes
+    expect(validateMessage({ ...message, value: { op: "set" } }, true).ok).toBe(true);
+    expect(validateLogEntry({ id: "0:0", origin: 0, seq: -1, data: 1 })).toMatchObject({
+      ok: false,
+      error: { code: "malformed", field: "seq" },
+    });
+  });
+
+  it("Answers malformed requests with 400 and counts them", async () => {
+    const transport = createHttpTransport(4300);
+    const servers: http.Server[] = await launchNetwork(3, 0, [1, 1, 1], [false, false, false], {
+      transport,
+    });
+    const post = (path: string, body: unknown) =>
+      fetch(`http://localhost:4300${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    try {
+      const missing = await post("/message", { ...message, round: undefined });
+      expect(missing.status).toBe(400);
+      expect(await missing.json()).toEqual({
+        code: "malformed",
+        field: "round",
+        message: "round must be a non-negative integer",
+      });
+
+      const mixed = await post("/message", { ...message, version: PROTOCOL_VERSION + 1 });
+      expect(mixed.status).toBe(400);
+      expect(await mixed.json()).toMatchObject({ code: "version", field: "version" });
+
+      expect((await post("/message", { ...message, value: 7 })).status).toBe(400);
+      expect((await post("/log/entries", { id: "1:0", origin: "1" })).status).toBe(400);
+      expect((await post("/instances/x/start", { initialValue: 2 })).status).toBe(400);
+      expect((await post("/resend", { from: -1 })).status).toBe(400);
+      expect((await post("/fault", { strategy: "teleport" })).status).toBe(400);
+      expect((await post("/membership/join", { node: 3 })).status).toBe(400);
+
+      // a well-formed but unsigned message is still refused, for another reason
+      expect((await post("/message", message)).status).toBe(200);
+
+      const state = await transport.getState(0);
+      expect(state.rejected).toEqual({
+        badSignature: 1,
+        unknownSender: 0,
+        duplicate: 0,
+        malformed: 3,
+        version: 1,
+      });
+      expect(state.x).toBe(1);
+    } finally {
+      servers.forEach((server) => server.close());
+    }
+  });
+
+  it("Refuses messages of another version on the in-memory transport", async () => {
+    const simulation = createSimulation(1);
+    const { transport } = simulation;
+    await launchNetwork(3, 0, [1, 1, 1], [false, false, false], { simulation });
+
+    await Promise.all([
+      transport.send(0, { ...message, version: 0 }, new AbortController().signal),
+      simulation.run(),
+    ]);
+
+    expect((await transport.getState(0)).rejected?.version).toBe(1);
+  });
+});
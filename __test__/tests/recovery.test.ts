@@ -0,0 +1,79 @@
+import * as fs from "fs";
+import { launchNetwork } from "../../src/index";
+import { startConsensus } from "../../src/nodes/consensus";
+import { checkProperties } from "../../src/properties";
+import { createSimulation } from "../../src/simulation";
+import { createFileStore, createStoreDir } from "../../src/storage";
+import { createTraceRecorder } from "../../src/trace";
+import { Value } from "../../src/types";
+
+describe("Crash recovery", () => {
+  const dirs: string[] = [];
+  function storeDir() {
+    const dir = createStoreDir();
+    dirs.push(dir);
+    return dir;
+  }
+
+  afterAll(() => {
+    dirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+  });
+
+  it("Ignores the torn record of a crash", () => {
+    const store = createFileStore(storeDir(), 0);
+    store.append({ type: "round", instance: "default", round: 1, estimate: 1 });
+    fs.appendFileSync(store.path, '{"type":"sent","instance":"def');
+
+    expect(store.records()).toEqual([
+      { type: "round", instance: "default", round: 1, estimate: 1 },
+    ]);
+  });
+
+  it("Restarts a node mid-run that rejoins and agrees with the others", async () => {
+    const simulation = createSimulation(21);
+    const trace = createTraceRecorder();
+    const initialValues: Value[] = [0, 1, 1, 0, 1];
+    const faultyList = initialValues.map(() => false);
+    // F = 0: nobody can decide while node 2 is down
+    await launchNetwork(5, 0, initialValues, faultyList, {
+      simulation,
+      trace,
+      durable: storeDir(),
+    });
+    const { transport } = simulation;
+
+    await startConsensus(5, transport);
+    await simulation.run({ maxTime: 3 });
+    await transport.stop(2);
+    await simulation.run({ maxTime: 500 });
+
+    let states = await Promise.all(faultyList.map((_, index) => transport.getState(index)));
+    expect(states.some((state) => state.decided)).toBe(false);
+    const before = trace.events.filter(
+      (event) => event.nodeId === 2 && event.type === "round-start"
+    );
+    expect(before.length).toBeGreaterThan(0);
+
+    await transport.restart(2);
+    await simulation.run({ maxTime: 60000 });
+
+    states = await Promise.all(faultyList.map((_, index) => transport.getState(index)));
+    expect(states.every((state) => state.decided && !state.killed)).toBe(true);
+    expect(
+      checkProperties({ initialValues, states, trace: trace.events, roundBudget: 20 })
+    ).toEqual([]);
+    // resumed its round instead of starting over
+    const resumed = trace.events.filter(
+      (event) => event.nodeId === 2 && event.type === "round-start"
+    )[before.length];
+    expect(resumed?.round).toBe(before[before.length - 1]?.round);
+  });
+
+  it("Refuses to restart a node without a durable store", async () => {
+    const simulation = createSimulation(1);
+    await launchNetwork(3, 0, [1, 1, 1], [false, false, false], { simulation });
+    await simulation.transport.stop(0);
+
+    await expect(simulation.transport.restart(0)).rejects.toThrow("could not be restarted");
+  });
+});
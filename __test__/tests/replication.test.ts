@@ -0,0 +1,73 @@
+import { launchNetwork } from "../../src/index";
+import { createSimulation } from "../../src/simulation";
+import { createMemoryTransport, Transport } from "../../src/transport";
+import { LogEntry } from "../../src/types";
+import { delay } from "../../src/utils";
+
+describe("Replicated log", () => {
+  it("Commits the same entries in the same order on every correct node", async () => {
+    const faultyArray = [false, false, true, false, false];
+    const simulation = createSimulation(11);
+    const { transport } = simulation;
+
+    await launchNetwork(5, 1, [1, 1, 1, 1, 1], faultyArray, { simulation });
+
+    await transport.submit(0, "a");
+    await transport.submit(3, "b");
+    await transport.submit(0, "c");
+    await expect(transport.submit(2, "d")).rejects.toThrow();
+
+    const correct = [0, 1, 3, 4];
+    const logs: Record<number, LogEntry[]> = {};
+    await simulation.run({
+      maxTime: 60000,
+      until: () => {
+        correct.forEach((index) => {
+          transport.getLog(index).then((log) => (logs[index] = log));
+        });
+        return correct.every((index) => logs[index]?.length === 3);
+      },
+    });
+    correct.forEach((index) => transport.stop(index));
+
+    const data = logs[0].map((entry) => entry.data);
+    expect(data).toHaveLength(3);
+    expect(data).toEqual(expect.arrayContaining(["a", "b", "c"]));
+    // entries of a node keep the order they were submitted in
+    expect(data.indexOf("a")).toBeLessThan(data.indexOf("c"));
+    correct.forEach((index) => expect(logs[index]).toEqual(logs[0]));
+  });
+
+  it("Commits an entry the origin only handed over to one node", async () => {
+    const memory = createMemoryTransport();
+    let failing = false;
+    const transport: Transport = {
+      ...memory,
+      // while failing, the origin's hand-over only reaches node 1
+      forward: (to, entry, signal) =>
+        failing && to !== 1 ? Promise.resolve() : memory.forward(to, entry, signal),
+    };
+    // a slot's instance may take more rounds than the cap, it goes on regardless
+    const network = await launchNetwork(5, 1, [1, 1, 1, 1, 1], [false, false, false, false, true], {
+      transport,
+      config: { node: { maxRounds: 1 } },
+    });
+
+    try {
+      failing = true;
+      await transport.submit(0, "a");
+      failing = false;
+
+      const correct = [0, 1, 2, 3];
+      let logs: LogEntry[][] = [];
+      for (let attempt = 0; attempt < 100; attempt++) {
+        logs = await Promise.all(correct.map((index) => transport.getLog(index)));
+        if (logs.every((log) => log.length === 1)) break;
+        await delay(50);
+      }
+      logs.forEach((log) => expect(log.map((entry) => entry.data)).toEqual(["a"]));
+    } finally {
+      await network.close();
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { runCli } from "../../src/cli";
+import { loadScenarioFile, runScenarioFile } from "../../src/scenarios";
+
+const SCENARIOS = path.join(__dirname, "../../scenarios");
+
+describe("Scenario files", () => {
+  fs.readdirSync(SCENARIOS)
+    .filter((file) => file.endsWith(".json"))
+    .forEach((file) => {
+      it(`Meets the expected outcome of ${file}`, async () => {
+        const report = await runScenarioFile(loadScenarioFile(path.join(SCENARIOS, file)));
+
+        expect(report.failures).toEqual([]);
+        expect(report.passed).toBe(true);
+      });
+    });
+
+  it("Reports unmet expectations", async () => {
+    const report = await runScenarioFile({
+      seed: 1,
+      N: 3,
+      F: 0,
+      initialValues: [0, 0, 0],
+      faulty: [],
+      expect: { decide: 1 },
+    });
+
+    expect(report.passed).toBe(false);
+    expect(report.failures).toEqual(["Expected 1 to be decided, got 0"]);
+  });
+
+  it("Stops the nodes at the round limit of the scenario", async () => {
+    // no majority for either value in the first round, nobody can decide in it
+    const report = await runScenarioFile({
+      seed: 1,
+      N: 4,
+      F: 0,
+      initialValues: [0, 0, 1, 1],
+      faulty: [],
+      config: { node: { maxRounds: 1 } },
+      expect: { finality: false },
+    });
+
+    expect(report.passed).toBe(true);
+    expect(report.finality).toBe(false);
+    expect(report.rounds).toBe(1);
+  });
+
+  it("Checks F against the fault model of the strategies", async () => {
+    const scenario = {
+      seed: 1,
+      N: 5,
+      F: 1,
+      initialValues: [0, 1, 0, 1, 1],
+      faulty: [4],
+      faults: { 4: { strategy: "equivocate" as const } },
+    };
+
+    await expect(runScenarioFile(scenario)).rejects.toThrow(
+      "F must be below N/5 for Byzantine faults, got N=5 and F=1"
+    );
+    // a file can still ask for no check, to watch a run beyond the threshold
+    const report = await runScenarioFile({ ...scenario, config: { faultModel: null } });
+    expect(report.states).toHaveLength(5);
+  });
+
+  it("Fails the command line when a scenario fails", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "scenario-"));
+    const file = path.join(dir, "wrong.json");
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ seed: 1, N: 1, F: 0, initialValues: [0], faulty: [], expect: { decide: 1 } })
+    );
+    const lines: string[] = [];
+
+    expect(await runCli(["scenario", file], (line) => lines.push(line))).toBe(1);
+    expect(lines).toEqual(["FAIL wrong (seed 1): Expected 1 to be decided, got 0"]);
+    fs.rmSync(dir, { recursive: true });
+  });
+});
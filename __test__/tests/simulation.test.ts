@@ -0,0 +1,46 @@
+import { launchNetwork } from "../../src/index";
+import { startConsensus } from "../../src/nodes/consensus";
+import { createRandom, createSimulation } from "../../src/simulation";
+import { Value } from "../../src/types";
+
+async function simulate(seed: number) {
+  const faultyArray = [false, false, true, false, true, false, false];
+  const inputs = createRandom(seed);
+  const initialValues: Value[] = faultyArray.map(() => (inputs() < 0.5 ? 0 : 1));
+
+  const simulation = createSimulation(seed);
+  await launchNetwork(
+    faultyArray.length,
+    faultyArray.filter((el) => el === true).length,
+    initialValues,
+    faultyArray,
+    { simulation }
+  );
+
+  await startConsensus(faultyArray.length, simulation.transport);
+  await simulation.run();
+
+  const states = await Promise.all(
+    faultyArray.map((_, index) => simulation.transport.getState(index))
+  );
+
+  return { trace: simulation.trace, states };
+}
+
+describe("Seeded simulation", () => {
+  it("Replays the same trace and final states for the same seed", async () => {
+    const first = await simulate(42);
+    const second = await simulate(42);
+
+    expect(first.trace.length).toBeGreaterThan(0);
+    expect(second.trace).toEqual(first.trace);
+    expect(second.states).toEqual(first.states);
+  });
+
+  it("Explores a different execution for another seed", async () => {
+    const first = await simulate(1);
+    const second = await simulate(2);
+
+    expect(second.trace).not.toEqual(first.trace);
+  });
+});
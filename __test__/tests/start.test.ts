@@ -0,0 +1,96 @@
+import * as fs from "fs";
+import { launchNetwork } from "../../src/index";
+import { createStoreDir } from "../../src/storage";
+import { createHttpTransport } from "../../src/transport";
+
+const PORT = 4500;
+
+const url = (nodeId: number, path: string, base = PORT) =>
+  `http://localhost:${base + nodeId}${path}`;
+
+// reads the event stream until the text received so far contains every given string
+async function readUntil(response: Response, expected: string[]) {
+  if (response.body === null) throw new Error("No event stream");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  while (!expected.every((part) => text.includes(part))) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value);
+  }
+  await reader.cancel();
+  return text;
+}
+
+describe("Asynchronous start", () => {
+  it("Answers /start at once and lets the progress be followed", async () => {
+    const network = await launchNetwork(4, 1, [1, 1, 0, 1], [false, false, false, true], {
+      transport: createHttpTransport(PORT),
+    });
+
+    try {
+      const events = await fetch(url(0, "/events"));
+      expect(events.headers.get("content-type")).toBe("text/event-stream");
+      // held back until node 1 decides
+      const waiting = fetch(url(1, "/getState?waitFor=decided&timeout=5000"));
+
+      const starts = await Promise.all([0, 1, 2, 3].map((nodeId) => fetch(url(nodeId, "/start"))));
+      expect(starts.map((response) => response.status)).toEqual([202, 202, 202, 500]);
+
+      const state = await (await waiting).json();
+      expect(state).toMatchObject({ decided: true });
+
+      const text = await readUntil(events, ["event: trace\n", '"decided":true']);
+      expect(text.startsWith('event: state\ndata: {"killed":false,"x":1,"decided":false')).toBe(
+        true
+      );
+      expect(text).toContain('"type":"decision"');
+
+      const invalid = await fetch(url(0, "/getState?waitFor=always"));
+      expect(invalid.status).toBe(400);
+      expect(await invalid.json()).toMatchObject({ code: "malformed", field: "waitFor" });
+    } finally {
+      await network.close();
+    }
+  });
+
+  it("Gives the state as it is once the wait times out", async () => {
+    // ports of their own, the client may still hold connections to the closed ones
+    const base = PORT + 10;
+    const network = await launchNetwork(3, 0, [1, 0, 1], [false, false, false], {
+      transport: createHttpTransport(base),
+    });
+
+    try {
+      // never started, the node can't decide
+      const response = await fetch(url(0, "/getState?waitFor=decided&timeout=100", base));
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ decided: false, k: 0 });
+    } finally {
+      await network.close();
+    }
+  });
+
+  it("Reports a start that failed after it was answered", async () => {
+    const base = PORT + 20;
+    const dir = createStoreDir();
+    const network = await launchNetwork(1, 0, [1], [false], {
+      transport: createHttpTransport(base),
+      durable: dir,
+    });
+
+    try {
+      // the start record can't be written anymore
+      fs.rmSync(dir, { recursive: true });
+      const events = await fetch(url(0, "/events", base));
+      const start = await fetch(url(0, "/start", base));
+      expect(start.status).toBe(202);
+
+      const text = await readUntil(events, ['"type":"start-failed"']);
+      expect(text).toContain("ENOENT");
+    } finally {
+      await network.close();
+    }
+  });
+});
@@ -0,0 +1,100 @@
+import { launchNetwork } from "../../src/index";
+import { createSimulation } from "../../src/simulation";
+import { createTraceRecorder, TraceEvent } from "../../src/trace";
+import { createHttpTransport } from "../../src/transport";
+
+const PORT = 4700;
+
+describe("Execution traces", () => {
+  it("Exports a recorded run as JSONL in Lamport order", async () => {
+    const trace = createTraceRecorder();
+    const network = await launchNetwork(4, 1, [1, 1, 0, 1], [false, false, false, true], {
+      simulation: createSimulation(5),
+      trace,
+    });
+    await network.start();
+    await network.awaitDecision();
+
+    const lines = trace.toJsonl().split("\n");
+    expect(lines).toHaveLength(trace.events.length);
+    const events = lines.map((line) => JSON.parse(line) as TraceEvent);
+
+    events.slice(1).forEach((event, index) => {
+      const previous = events[index] as TraceEvent;
+      expect(
+        event.timestamp > previous.timestamp ||
+          (event.timestamp === previous.timestamp && event.nodeId >= previous.nodeId)
+      ).toBe(true);
+    });
+
+    // a message is received after it was sent
+    const sent = events.filter((event) => event.type === "message-sent");
+    events
+      .filter((event) => event.type === "message-received")
+      .forEach((received) => {
+        const send = sent.find(
+          (event) =>
+            event.nodeId === received.data.from &&
+            event.data.to === received.nodeId &&
+            event.round === received.round &&
+            event.phase === received.phase
+        );
+        expect(send?.timestamp).toBeLessThan(received.timestamp);
+      });
+
+    const decisions = events.filter((event) => event.type === "decision");
+    expect(decisions.map((event) => event.nodeId).sort()).toEqual([0, 1, 2]);
+    expect(new Set(decisions.map((event) => event.data.value)).size).toBe(1);
+    // the crashed node records nothing
+    expect(events.some((event) => event.nodeId === 3)).toBe(false);
+  });
+
+  it("Serves a node's events on GET /trace, as JSON or JSONL", async () => {
+    const network = await launchNetwork(3, 0, [0, 0, 0], [false, false, false], {
+      transport: createHttpTransport(PORT),
+    });
+
+    try {
+      await network.start();
+      await network.awaitDecision({ timeout: 5000 });
+
+      const json = (await (await fetch(`http://localhost:${PORT}/trace`)).json()) as TraceEvent[];
+      expect(json[0]).toMatchObject({ type: "round-start", nodeId: 0, round: 1 });
+      expect(json.some((event) => event.type === "decision")).toBe(true);
+
+      const response = await fetch(`http://localhost:${PORT}/trace?format=jsonl`);
+      expect(response.headers.get("content-type")).toContain("application/x-ndjson");
+      const lines = (await response.text()).split("\n").map((line) => JSON.parse(line));
+      // events recorded after the first request are left out of it
+      expect(lines.slice(0, json.length)).toEqual(json);
+    } finally {
+      await network.close();
+    }
+  });
+
+  it("Keeps only the last traceLimit events for GET /trace", async () => {
+    const trace = createTraceRecorder();
+    const network = await launchNetwork(3, 0, [0, 1, 0], [false, false, false], {
+      transport: createHttpTransport(PORT + 10),
+      config: { node: { traceLimit: 5 } },
+      trace,
+    });
+
+    try {
+      await network.start();
+      await network.awaitDecision({ timeout: 5000 });
+
+      const url = `http://localhost:${PORT + 10}/trace`;
+      const json = (await (await fetch(url)).json()) as TraceEvent[];
+      expect(json).toHaveLength(5);
+
+      // the oldest events are dropped, the caller's recorder still sees all of them
+      const recorded = trace.events.filter((event) => event.nodeId === 0);
+      const first = recorded.findIndex((event) => event.timestamp === json[0]?.timestamp);
+      expect(first).toBeGreaterThan(0);
+      expect(json).toEqual(JSON.parse(JSON.stringify(recorded.slice(first, first + 5))));
+    } finally {
+      await network.close();
+    }
+  });
+});
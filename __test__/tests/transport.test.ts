@@ -0,0 +1,59 @@
+import { launchNetwork } from "../../src/index";
+import { createMemoryTransport, Transport } from "../../src/transport";
+import { NodeState, Value } from "../../src/types";
+
+async function getStates(N: number, getState: (i: number) => Promise<NodeState<unknown>>) {
+  return Promise.all(new Array(N).fill(0).map((_, i) => getState(i)));
+}
+
+describe("In-memory transport", () => {
+  it("Reaches finality without binding any port", async () => {
+    const N = 100;
+    const faultyArray = new Array(N).fill(false).map((_, i) => i < 10);
+    const initialValues: Value[] = new Array(N).fill(1);
+    const transport = createMemoryTransport();
+
+    const network = await launchNetwork(N, 10, initialValues, faultyArray, {
+      transport,
+    });
+
+    expect(network.every((server) => !server.listening)).toBe(true);
+
+    await network.start();
+    await network.awaitDecision({ timeout: 5000 });
+    const states = await getStates(N, transport.getState);
+    await network.close();
+
+    states.forEach((state, index) => {
+      if (faultyArray[index]) {
+        expect(state.x).toBeNull();
+      } else {
+        expect(state.decided).toBe(true);
+        expect(state.x).toBe(1);
+      }
+    });
+  });
+
+  it("Stops sending to a peer once it refused a message as crashed", async () => {
+    const memory = createMemoryTransport();
+    const sends = new Array(4).fill(0);
+    const transport: Transport = {
+      ...memory,
+      send(to, message, signal) {
+        sends[to]++;
+        return memory.send(to, message, signal);
+      },
+    };
+    const network = await launchNetwork(4, 1, [1, 1, 1, 1], [false, false, false, true], {
+      transport,
+    });
+
+    await network.start();
+    await network.awaitDecision({ timeout: 5000 });
+    await network.close();
+
+    // each correct node asked the crashed one once, and its peers for every phase
+    expect(sends[3]).toBe(3);
+    expect(sends[0]).toBeGreaterThan(3);
+  });
+});
@@ -0,0 +1,10 @@
+export {
+  createJoiningKeys,
+  createKeyRegistry,
+  createNetworkKeys,
+  exportPublicKey,
+  importPublicKey,
+  signMessage,
+  verifyMessage,
+} from "./keys";
+export type { KeyRegistry, NodeKeys } from "./keys";
@@ -0,0 +1,98 @@
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  KeyObject,
+  sign,
+  verify,
+} from "crypto";
+import { createRandom } from "../simulation";
+import { Message } from "../types";
+import { valueKey } from "../utils";
+
+// public keys of every node of a network, by node id
+export type KeyRegistry = {
+  publicKey: (nodeId: number) => KeyObject | undefined;
+  add: (nodeId: number, publicKey: KeyObject) => void; // for nodes joining later
+};
+
+export function createKeyRegistry(): KeyRegistry {
+  const keys = new Map<number, KeyObject>();
+  return {
+    publicKey: (nodeId: number) => keys.get(nodeId),
+    add: (nodeId: number, publicKey: KeyObject) => {
+      keys.set(nodeId, publicKey);
+    },
+  };
+}
+
+// public keys travel as base64 DER
+export function exportPublicKey(publicKey: KeyObject) {
+  return publicKey.export({ format: "der", type: "spki" }).toString("base64");
+}
+
+export function importPublicKey(encoded: string) {
+  return createPublicKey({ key: Buffer.from(encoded, "base64"), format: "der", type: "spki" });
+}
+
+export type NodeKeys = {
+  privateKey: KeyObject;
+  registry: KeyRegistry;
+};
+
+// PKCS#8 DER header of an Ed25519 private key, followed by its 32 bytes seed
+const ED25519_PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+
+// keypair derived from a PRNG, so that seeded simulations sign the same bytes
+function seededKeyPair(random: () => number) {
+  const seed = Buffer.from(new Array(32).fill(0).map(() => Math.floor(random() * 256)));
+  const privateKey = createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+    format: "der",
+    type: "pkcs8",
+  });
+  return { privateKey, publicKey: createPublicKey(privateKey) };
+}
+
+// one Ed25519 keypair per node, the private keys only go to their node.
+// With a seed the keys are the same from one run to the next
+export function createNetworkKeys(N: number, seed?: number): NodeKeys[] {
+  const random = seed === undefined ? undefined : createRandom(seed);
+  const pairs = new Array(N)
+    .fill(0)
+    .map(() => (random ? seededKeyPair(random) : generateKeyPairSync("ed25519")));
+  const registry = createKeyRegistry();
+  pairs.forEach((pair, nodeId) => registry.add(nodeId, pair.publicKey));
+
+  return pairs.map((pair) => ({ privateKey: pair.privateKey, registry }));
+}
+
+// keypair of a node joining a running network, it learns the others' keys when admitted
+export function createJoiningKeys(nodeId: number): NodeKeys {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  const registry = createKeyRegistry();
+  registry.add(nodeId, publicKey);
+  return { privateKey, registry };
+}
+
+// the signed bytes: every field but the signature, in a stable order
+function payload(message: Message<unknown>) {
+  const { signature, ...fields } = message;
+  return Buffer.from(valueKey(fields));
+}
+
+export function signMessage(message: Message<unknown>, privateKey: KeyObject): Message<unknown> {
+  return {
+    ...message,
+    signature: sign(null, payload(message), privateKey).toString("base64"),
+  };
+}
+
+export function verifyMessage(message: Message<unknown>, publicKey: KeyObject): boolean {
+  if (typeof message.signature !== "string") return false;
+  try {
+    return verify(null, payload(message), publicKey, Buffer.from(message.signature, "base64"));
+  } catch (error) {
+    return false;
+  }
+}
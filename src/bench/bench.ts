@@ -0,0 +1,148 @@
+import { createCommonCoin, createLocalCoin } from "../coins";
+import { faultsFromSpecs } from "../faults";
+import { launchNetwork } from "../index";
+import { createNetworkConditions, NetworkController } from "../network";
+import { startConsensus } from "../nodes/consensus";
+import { createRandom, createSimulation } from "../simulation";
+import { createTraceRecorder } from "../trace";
+import { Transport } from "../transport";
+import { Value } from "../types";
+import { BenchConfig, BenchResult, BenchRun, Distribution } from "./types";
+
+export type BenchOptions = {
+  repetitions?: number; // runs of each configuration, 20 by default
+  seed?: number; // seed of the first run, the following ones use the next seeds, 1 by default
+  maxTime?: number; // virtual ms after which a run stops, 10000 by default
+};
+
+function initialValuesFor(config: BenchConfig, seed: number): Value[] {
+  const random = createRandom(seed ^ 0x68e31da4);
+  return new Array(config.N).fill(0).map((_, index) => {
+    if (config.inputs === "unanimous") return 1;
+    if (config.inputs === "split") return (index % 2) as Value;
+    return random() < 0.5 ? 0 : 1;
+  });
+}
+
+type SendCount = { messages: number; bytes: number };
+
+// counts what the nodes send, whether it arrives or not
+function countSends(transport: Transport, count: SendCount): Transport {
+  return {
+    ...transport,
+    send(to, message, signal) {
+      count.messages++;
+      count.bytes += Buffer.byteLength(JSON.stringify(message));
+      return transport.send(to, message, signal);
+    },
+  };
+}
+
+// runs a configuration once in a seeded simulation
+export async function benchRun(
+  config: BenchConfig,
+  seed: number,
+  maxTime: number = 10000
+): Promise<BenchRun> {
+  const wallStart = new Date().getTime();
+  const simulation = createSimulation(seed);
+  const trace = createTraceRecorder();
+  const faultyList = new Array(config.N).fill(false).map((_, index) => index >= config.N - config.F);
+  const { fault } = config;
+  const faults = fault
+    ? faultsFromSpecs(
+        Object.fromEntries(
+          faultyList.flatMap((faulty, index) => (faulty ? [[index, fault]] : []))
+        )
+      )
+    : {};
+  const network = config.network
+    ? createNetworkConditions(
+        { default: config.network },
+        { clock: simulation.clock, random: createRandom(seed ^ 0x2545f491) }
+      )
+    : undefined;
+  // counted before the network conditions, a lost message was still sent
+  const sent: SendCount = { messages: 0, bytes: 0 };
+  const counted: NetworkController | undefined = network && {
+    ...network,
+    wrap: (transport) => countSends(network.wrap(transport), sent),
+  };
+
+  await launchNetwork(config.N, config.F, initialValuesFor(config, seed), faultyList, {
+    simulation: counted
+      ? simulation
+      : { ...simulation, transport: countSends(simulation.transport, sent) },
+    trace,
+    faults,
+    coin: config.coin === "common" ? createCommonCoin(seed) : createLocalCoin(simulation.random),
+    ...(counted ? { network: counted } : {}),
+    ...(config.maxRounds !== undefined
+      ? { config: { node: { maxRounds: config.maxRounds } } }
+      : {}),
+  });
+  await startConsensus(config.N, simulation.transport);
+  await simulation.run({ maxTime });
+
+  const decisions = trace.events.filter(
+    (event) => event.type === "decision" && !faultyList[event.nodeId]
+  );
+  const correct = faultyList.filter((faulty) => !faulty).length;
+  const terminated = new Set(decisions.map((event) => event.nodeId)).size === correct;
+
+  return {
+    seed,
+    terminated,
+    rounds: terminated ? Math.max(...decisions.map((event) => event.round ?? 0)) : null,
+    messagesPerNode: sent.messages / config.N,
+    bytesPerNode: sent.bytes / config.N,
+    virtualTime: terminated ? Math.max(...decisions.map((event) => event.time)) : null,
+    wallTime: new Date().getTime() - wallStart,
+  };
+}
+
+export function distribution(samples: number[]): Distribution | null {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (quantile: number) =>
+    sorted[Math.min(sorted.length - 1, Math.floor(quantile * sorted.length))] as number;
+
+  return {
+    min: sorted[0] as number,
+    mean: sorted.reduce((total, el) => total + el, 0) / sorted.length,
+    median: at(0.5),
+    p90: at(0.9),
+    max: sorted[sorted.length - 1] as number,
+  };
+}
+
+// repeats every configuration and aggregates its runs
+export async function bench(
+  configs: BenchConfig[],
+  options: BenchOptions = {}
+): Promise<BenchResult[]> {
+  const repetitions = options.repetitions ?? 20;
+  const firstSeed = options.seed ?? 1;
+  const results: BenchResult[] = [];
+
+  for (const config of configs) {
+    const runs: BenchRun[] = [];
+    for (let repetition = 0; repetition < repetitions; repetition++) {
+      runs.push(await benchRun(config, firstSeed + repetition, options.maxTime));
+    }
+    const terminated = runs.filter((run) => run.terminated);
+
+    results.push({
+      config,
+      repetitions,
+      nonTerminationRate: (runs.length - terminated.length) / runs.length,
+      rounds: distribution(terminated.map((run) => run.rounds ?? 0)),
+      messagesPerNode: distribution(runs.map((run) => run.messagesPerNode)) as Distribution,
+      bytesPerNode: distribution(runs.map((run) => run.bytesPerNode)) as Distribution,
+      virtualTime: distribution(terminated.map((run) => run.virtualTime ?? 0)),
+      wallTime: distribution(runs.map((run) => run.wallTime)) as Distribution,
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,4 @@
+export { bench, benchRun, distribution } from "./bench";
+export type { BenchOptions } from "./bench";
+export { toCsv, toJson } from "./report";
+export type { BenchConfig, BenchResult, BenchRun, Distribution } from "./types";
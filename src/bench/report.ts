@@ -0,0 +1,41 @@
+import { BenchResult, Distribution } from "./types";
+
+const METRICS = ["rounds", "messagesPerNode", "bytesPerNode", "virtualTime", "wallTime"] as const;
+const STATS: (keyof Distribution)[] = ["min", "mean", "median", "p90", "max"];
+
+function format(value: number | undefined) {
+  if (value === undefined) return "";
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+// one row per configuration, one column per statistic of each metric
+export function toCsv(results: BenchResult[]) {
+  const header = [
+    "N",
+    "F",
+    "coin",
+    "fault",
+    "inputs",
+    "maxRounds",
+    "repetitions",
+    "nonTerminationRate",
+    ...METRICS.flatMap((metric) => STATS.map((stat) => `${metric}.${stat}`)),
+  ];
+  const rows = results.map((result) => [
+    String(result.config.N),
+    String(result.config.F),
+    result.config.coin ?? "local",
+    result.config.fault?.strategy ?? "crash",
+    result.config.inputs ?? "random",
+    result.config.maxRounds === undefined ? "default" : String(result.config.maxRounds ?? "none"),
+    String(result.repetitions),
+    format(result.nonTerminationRate),
+    ...METRICS.flatMap((metric) => STATS.map((stat) => format(result[metric]?.[stat]))),
+  ]);
+
+  return [header, ...rows].map((row) => row.join(",")).join("\n") + "\n";
+}
+
+export function toJson(results: BenchResult[]) {
+  return JSON.stringify(results, null, 2);
+}
@@ -0,0 +1,42 @@
+import { FaultSpec } from "../faults";
+import { LinkConditions } from "../network";
+
+export type BenchConfig = {
+  N: number;
+  F: number; // the last F nodes are faulty
+  coin?: "local" | "common"; // local by default
+  fault?: FaultSpec; // strategy of every faulty node, silent crashes by default
+  inputs?: "random" | "split" | "unanimous"; // initial values, random by default
+  network?: LinkConditions;
+  maxRounds?: number | null; // round cap of the nodes, null for none, the config's by default
+};
+
+// one run of a configuration
+export type BenchRun = {
+  seed: number;
+  terminated: boolean; // every correct node decided
+  rounds: number | null; // round of the last decision among correct nodes
+  messagesPerNode: number; // messages handed to the transport, retries included, divided by N
+  bytesPerNode: number; // size of those messages as JSON, divided by N
+  virtualTime: number | null; // virtual ms until the last decision
+  wallTime: number; // real ms the run took
+};
+
+export type Distribution = {
+  min: number;
+  mean: number;
+  median: number;
+  p90: number;
+  max: number;
+};
+
+export type BenchResult = {
+  config: BenchConfig;
+  repetitions: number;
+  nonTerminationRate: number; // share of runs where a correct node never decided
+  rounds: Distribution | null; // over terminated runs, null if none
+  messagesPerNode: Distribution;
+  bytesPerNode: Distribution;
+  virtualTime: Distribution | null; // over terminated runs, null if none
+  wallTime: Distribution;
+};
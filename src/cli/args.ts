@@ -0,0 +1,164 @@
+import { parseArgs } from "util";
+import { BenchConfig, BenchOptions } from "../bench";
+import { Value } from "../types";
+
+export type Command = "launch" | "start" | "status" | "state" | "stop" | "run";
+
+const COMMANDS: Command[] = ["launch", "start", "status", "state", "stop", "run"];
+
+export type CliOptions = {
+  N: number;
+  F: number;
+  initialValues: Value<unknown>[];
+  faultyList: boolean[];
+  watch: boolean; // keeps printing the states until finality
+  interval: number; // ms between two polls of the nodes
+  timeout: number; // ms to wait for finality
+};
+
+export const USAGE = `Usage: cli <command> --n <nodes> [options]
+
+Commands:
+  launch   launch the nodes and keep serving them
+  start    start consensus on a launched network
+  status   summary of the network
+  state    table of the node states, --watch to follow it until finality
+  stop     stop every node
+  run      launch, start, wait for finality, print the states and stop
+  scenario <file..> [--json]  run scenario files in a simulation and check their expected outcome
+  bench    sweep --n, --f and --max-rounds lists in simulations, --repeat times each, --format csv or json
+
+Options:
+  --n <N>            number of nodes
+  --f <F>            number of faulty nodes, the first F ones unless --faulty is given
+  --faulty <i,j>     indexes of the faulty nodes
+  --inputs <a,b,..>  initial value of each node, 0, 1, ? or JSON, all 1 by default
+  --watch            with state, poll until finality
+  --interval <ms>    polling interval, 200 by default
+  --timeout <ms>     how long run and state --watch wait for finality, 10000 by default
+
+Exit codes: 0 success, 1 property violated or scenario failed, 2 bad usage, 3 no finality before the timeout,
+4 unexpected error`;
+
+function parseInteger(name: string, raw: string | undefined) {
+  const value = Number(raw);
+  // Number("") is 0, an empty value is as missing as no value
+  if (raw === undefined || raw.trim() === "" || !Number.isInteger(value) || value < 0)
+    throw new Error(`--${name} expects a non-negative integer, got ${raw}`);
+  return value;
+}
+
+function parseValue(raw: string): Value<unknown> {
+  if (raw === "?") return "?";
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+export function parseCommand(argv: string[]): { command: Command; options: CliOptions } {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      n: { type: "string" },
+      f: { type: "string" },
+      faulty: { type: "string" },
+      inputs: { type: "string" },
+      watch: { type: "boolean", default: false },
+      interval: { type: "string", default: "200" },
+      timeout: { type: "string", default: "10000" },
+    },
+  });
+
+  const command = positionals[0] as Command;
+  if (!COMMANDS.includes(command)) throw new Error(`Unknown command ${positionals[0]}`);
+
+  const N = parseInteger("n", values.n);
+  const faulty = values.faulty
+    ? values.faulty.split(",").map((raw) => parseInteger("faulty", raw))
+    : undefined;
+  if (faulty?.some((index) => index >= N))
+    throw new Error(`--faulty indexes must be lower than ${N}`);
+  const F = values.f !== undefined ? parseInteger("f", values.f) : (faulty?.length ?? 0);
+  if (faulty !== undefined && faulty.length !== F)
+    throw new Error(`--faulty lists ${faulty.length} nodes but --f is ${F}`);
+
+  const initialValues = values.inputs
+    ? values.inputs.split(",").map(parseValue)
+    : new Array(N).fill(1);
+  if (initialValues.length !== N)
+    throw new Error(`--inputs has ${initialValues.length} values for ${N} nodes`);
+
+  return {
+    command,
+    options: {
+      N,
+      F,
+      initialValues,
+      faultyList: new Array(N)
+        .fill(false)
+        .map((_, index) => (faulty ? faulty.includes(index) : index < F)),
+      watch: values.watch ?? false,
+      interval: parseInteger("interval", values.interval),
+      timeout: parseInteger("timeout", values.timeout),
+    },
+  };
+}
+
+// bench --n 4,7,10 --f 0,1,2 [--max-rounds 10,20,none] [--coin local|common]
+// [--inputs random|split|unanimous] [--repeat 20] [--seed 1] [--format csv|json],
+// skipping configurations with N <= 2F
+export function parseBench(argv: string[]) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      n: { type: "string" },
+      f: { type: "string", default: "0" },
+      "max-rounds": { type: "string" },
+      coin: { type: "string", default: "local" },
+      inputs: { type: "string", default: "random" },
+      repeat: { type: "string", default: "20" },
+      seed: { type: "string", default: "1" },
+      format: { type: "string", default: "csv" },
+    },
+  });
+
+  if (values.n === undefined) throw new Error("bench expects --n");
+  const list = (name: string, raw: string | undefined) =>
+    (raw ?? "").split(",").map((el) => parseInteger(name, el));
+  const Ns = list("n", values.n);
+  const Fs = list("f", values.f);
+  // the config's round cap when not given
+  const caps: (number | null | undefined)[] =
+    values["max-rounds"] === undefined
+      ? [undefined]
+      : values["max-rounds"]
+          .split(",")
+          .map((el) => (el === "none" ? null : parseInteger("max-rounds", el)));
+  if (values.coin !== "local" && values.coin !== "common")
+    throw new Error(`--coin expects local or common, got ${values.coin}`);
+  if (!["random", "split", "unanimous"].includes(values.inputs ?? ""))
+    throw new Error(`--inputs expects random, split or unanimous, got ${values.inputs}`);
+  if (values.format !== "csv" && values.format !== "json")
+    throw new Error(`--format expects csv or json, got ${values.format}`);
+
+  const configs: BenchConfig[] = Ns.flatMap((N) =>
+    Fs.filter((F) => N > 2 * F).flatMap((F) =>
+      caps.map((maxRounds) => ({
+        N,
+        F,
+        coin: values.coin as "local" | "common",
+        inputs: values.inputs as "random" | "split" | "unanimous",
+        ...(maxRounds !== undefined ? { maxRounds } : {}),
+      }))
+    )
+  );
+  const options: BenchOptions = {
+    repetitions: parseInteger("repeat", values.repeat),
+    seed: parseInteger("seed", values.seed),
+  };
+
+  return { configs, options, format: values.format };
+}
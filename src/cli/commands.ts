@@ -0,0 +1,171 @@
+import * as http from "http";
+import { bench, toCsv, toJson } from "../bench";
+import { launchNetwork } from "../index";
+import { startConsensus, stopConsensus } from "../nodes/consensus";
+import { getNetworkSummary, NetworkSummary } from "../nodes/observer";
+import { loadScenarioFile, runScenarioFile } from "../scenarios";
+import { delay } from "../utils";
+import { CliOptions, Command, parseBench, parseCommand, USAGE } from "./args";
+import { formatStates, formatSummary } from "./table";
+
+export const EXIT = { ok: 0, violation: 1, usage: 2, timeout: 3, error: 4 };
+
+type Output = (line: string) => void;
+
+function exitCode(summary: NetworkSummary<unknown>) {
+  return summary.violations.length > 0 ? EXIT.violation : EXIT.ok;
+}
+
+// polls the network until every correct node decided or the timeout, printing
+// the states each time they change when print is given
+async function waitForFinality(options: CliOptions, print?: Output) {
+  const time = new Date().getTime();
+  let printed = "";
+  for (;;) {
+    const summary = await getNetworkSummary(options.N, {
+      initialValues: options.initialValues,
+    });
+    const table = formatStates(summary);
+    if (print && table !== printed) {
+      print(table + "\n");
+      printed = table;
+    }
+    if (summary.finality || new Date().getTime() - time >= options.timeout) return summary;
+    await delay(options.interval);
+  }
+}
+
+async function closeServers(servers: http.Server[]) {
+  await Promise.all(
+    servers.map(
+      (server) =>
+        new Promise<void>((resolve) => {
+          server.close(() => resolve());
+          server.closeAllConnections();
+        })
+    )
+  );
+}
+
+const commands: Record<
+  Command,
+  (options: CliOptions, print: Output) => Promise<number | null>
+> = {
+  // keeps serving, null tells the caller not to exit
+  async launch(options, print) {
+    await launchNetwork(options.N, options.F, options.initialValues, options.faultyList);
+    print(`Launched ${options.N} nodes, ${options.F} faulty`);
+    return null;
+  },
+
+  async start(options, print) {
+    await startConsensus(options.N);
+    print(`Started consensus on ${options.N} nodes`);
+    return EXIT.ok;
+  },
+
+  async status(options, print) {
+    const summary = await getNetworkSummary(options.N, {
+      initialValues: options.initialValues,
+    });
+    print(formatSummary(summary));
+    return exitCode(summary);
+  },
+
+  async state(options, print) {
+    if (!options.watch) {
+      const summary = await getNetworkSummary(options.N, {
+        initialValues: options.initialValues,
+      });
+      print(formatStates(summary));
+      return exitCode(summary);
+    }
+
+    const summary = await waitForFinality(options, print);
+    if (!summary.finality) return EXIT.timeout;
+    return exitCode(summary);
+  },
+
+  async stop(options, print) {
+    await stopConsensus(options.N);
+    print(`Stopped ${options.N} nodes`);
+    return EXIT.ok;
+  },
+
+  async run(options, print) {
+    const servers = await launchNetwork(
+      options.N,
+      options.F,
+      options.initialValues,
+      options.faultyList
+    );
+    try {
+      await startConsensus(options.N);
+      const summary = await waitForFinality(options);
+      print(formatStates(summary));
+      print(formatSummary(summary));
+
+      if (summary.violations.length > 0) return EXIT.violation;
+      return summary.finality ? EXIT.ok : EXIT.timeout;
+    } finally {
+      await stopConsensus(options.N);
+      await closeServers(servers);
+    }
+  },
+};
+
+// runs scenario files one after the other, a line per scenario or the full
+// reports with --json
+async function runScenarios(argv: string[], print: Output) {
+  const json = argv.includes("--json");
+  const files = argv.filter((arg) => arg !== "--json");
+  if (files.length === 0) {
+    print(`scenario expects at least one file\n\n${USAGE}`);
+    return EXIT.usage;
+  }
+
+  const reports = [];
+  for (const file of files) {
+    const report = await runScenarioFile(loadScenarioFile(file));
+    reports.push(report);
+    if (json) continue;
+    print(
+      report.passed
+        ? `PASS ${report.name} (seed ${report.seed}): decided ${JSON.stringify(report.decidedValue)} by round ${report.rounds}`
+        : `FAIL ${report.name} (seed ${report.seed}): ${report.failures.join("; ")}`
+    );
+  }
+  if (json) print(JSON.stringify(reports, null, 2));
+
+  return reports.every((report) => report.passed) ? EXIT.ok : EXIT.violation;
+}
+
+async function runBench(argv: string[], print: Output) {
+  let parsed: ReturnType<typeof parseBench>;
+  try {
+    parsed = parseBench(argv);
+  } catch (error) {
+    print(`${(error as Error).message}\n\n${USAGE}`);
+    return EXIT.usage;
+  }
+
+  const results = await bench(parsed.configs, parsed.options);
+  print(parsed.format === "csv" ? toCsv(results) : toJson(results));
+  return EXIT.ok;
+}
+
+// runs a command line, resolves to the exit code or null while the network keeps serving
+export async function runCli(argv: string[], print: Output = console.log) {
+  if (argv[0] === "scenario") return runScenarios(argv.slice(1), print);
+  if (argv[0] === "bench") return runBench(argv.slice(1), print);
+
+  let parsed: ReturnType<typeof parseCommand>;
+  try {
+    parsed = parseCommand(argv);
+  } catch (error) {
+    print(`${(error as Error).message}\n\n${USAGE}`);
+    return EXIT.usage;
+  }
+
+  return commands[parsed.command](parsed.options, print);
+}
@@ -0,0 +1,4 @@
+export { parseCommand, USAGE } from "./args";
+export type { CliOptions, Command } from "./args";
+export { EXIT, runCli } from "./commands";
+export { formatStates, formatSummary } from "./table";
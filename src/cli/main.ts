@@ -0,0 +1,10 @@
+import { EXIT, runCli } from "./commands";
+
+runCli(process.argv.slice(2))
+  .then((code) => {
+    if (code !== null) process.exit(code);
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(EXIT.error);
+  });
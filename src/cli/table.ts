@@ -0,0 +1,40 @@
+import { NetworkSummary } from "../nodes/observer";
+import { isFaultyState } from "../properties";
+
+function cell(value: unknown) {
+  return value === null || value === undefined ? "-" : JSON.stringify(value);
+}
+
+// one row per node, columns padded to their widest cell
+export function formatStates(summary: NetworkSummary<unknown>) {
+  const rows = summary.nodes.map((state, index) => {
+    if (state === null) return [String(index), "unreachable", "-", "-", "-"];
+    if (isFaultyState(state)) return [String(index), "faulty", "-", "-", "-"];
+    return [
+      String(index),
+      state.killed ? "killed" : "live",
+      cell(state.x),
+      cell(state.decided),
+      cell(state.k),
+    ];
+  });
+  const table = [["node", "status", "x", "decided", "k"], ...rows];
+  const widths = (table[0] as string[]).map((_, column) =>
+    Math.max(...table.map((row) => (row[column] ?? "").length))
+  );
+
+  return table
+    .map((row) => row.map((el, column) => el.padEnd(widths[column] ?? 0)).join("  ").trimEnd())
+    .join("\n");
+}
+
+export function formatSummary(summary: NetworkSummary<unknown>) {
+  const { live, killed, faulty, unreachable } = summary.breakdown;
+  const lines = [
+    `nodes: ${summary.N} (${live} live, ${killed} killed, ${faulty} faulty, ${unreachable} unreachable)`,
+    `finality: ${summary.finality}`,
+    `decided value: ${cell(summary.decidedValue)}`,
+    ...summary.violations.map((violation) => `violation: ${violation.message}`),
+  ];
+  return lines.join("\n");
+}
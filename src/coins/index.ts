@@ -0,0 +1,2 @@
+export { createCommonCoin, createDealerCoin, createLocalCoin } from "./sources";
+export type { CoinSource } from "./types";
@@ -0,0 +1,38 @@
+import { createRandom, Random } from "../simulation";
+import { CoinSource } from "./types";
+
+// every node flips its own coin, as in the original Ben-Or protocol
+export function createLocalCoin(random: Random): CoinSource {
+  return {
+    name: "local",
+    flip: () => (random() < 0.5 ? 0 : 1),
+  };
+}
+
+// seeded beacon: the coin of a round only depends on the seed and the round,
+// so every node sees the same value without exchanging anything
+export function createCommonCoin(seed: number): CoinSource {
+  return {
+    name: "common",
+    flip: (_, round) =>
+      createRandom((seed + Math.imul(round, 0x9e3779b1)) >>> 0)() < 0.5 ? 0 : 1,
+  };
+}
+
+// stand-in for a threshold coin: a trusted dealer draws each round's coin the
+// first time a node asks for it and hands the same value to every node
+export function createDealerCoin(random: Random): CoinSource {
+  const coins = new Map<number, 0 | 1>();
+
+  return {
+    name: "dealer",
+    flip(_, round) {
+      let coin = coins.get(round);
+      if (coin === undefined) {
+        coin = random() < 0.5 ? 0 : 1;
+        coins.set(round, coin);
+      }
+      return coin;
+    },
+  };
+}
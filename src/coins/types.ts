@@ -0,0 +1,5 @@
+// where a node gets its coin flip from when no value was proposed in a round
+export interface CoinSource {
+  name: string;
+  flip(nodeId: number, round: number): 0 | 1;
+}
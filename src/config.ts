@@ -1 +0,0 @@
-export const BASE_NODE_PORT = 3000;
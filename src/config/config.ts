@@ -0,0 +1,118 @@
+import { BASE_NODE_PORT } from "./constants";
+import { FaultModel, NetworkConfig, NetworkConfigInput, NodeConfig } from "./types";
+
+export const DEFAULT_NODE_CONFIG: NodeConfig = {
+  maxRounds: 20,
+  sendTimeout: 500,
+  sendAttempts: 3,
+  retryBackoff: 100,
+  readinessPoll: 50,
+  messagePoll: 5,
+  gatherTimeout: 500,
+  echoTimeout: 5000,
+  traceLimit: 10000,
+};
+
+export const DEFAULT_NETWORK_CONFIG: NetworkConfig = {
+  basePort: BASE_NODE_PORT,
+  faultModel: null,
+  node: DEFAULT_NODE_CONFIG,
+};
+
+// environment variable overriding each timing of the nodes
+const NODE_ENV: Record<keyof NodeConfig, string> = {
+  maxRounds: "BENOR_MAX_ROUNDS",
+  sendTimeout: "BENOR_SEND_TIMEOUT_MS",
+  sendAttempts: "BENOR_SEND_ATTEMPTS",
+  retryBackoff: "BENOR_RETRY_BACKOFF_MS",
+  readinessPoll: "BENOR_READINESS_POLL_MS",
+  messagePoll: "BENOR_MESSAGE_POLL_MS",
+  gatherTimeout: "BENOR_GATHER_TIMEOUT_MS",
+  echoTimeout: "BENOR_ECHO_TIMEOUT_MS",
+  traceLimit: "BENOR_TRACE_LIMIT",
+};
+
+function envNumber(env: NodeJS.ProcessEnv, name: string) {
+  const value = Number(env[name]);
+  if (Number.isNaN(value)) throw new Error(`${name} must be a number, got "${env[name]}"`);
+  return value;
+}
+
+// the part of the configuration set in the environment, BENOR_MAX_ROUNDS=unbounded
+// runs rounds until the nodes decide
+export function configFromEnv(env: NodeJS.ProcessEnv = process.env): NetworkConfigInput {
+  const node: Partial<Record<keyof NodeConfig, number | null>> = {};
+  (Object.keys(NODE_ENV) as (keyof NodeConfig)[]).forEach((key) => {
+    const name = NODE_ENV[key];
+    if (env[name] === undefined || env[name] === "") return;
+    node[key] = key === "maxRounds" && env[name] === "unbounded" ? null : envNumber(env, name);
+  });
+
+  // only maxRounds can be null, the others always get a number
+  const input: NetworkConfigInput = { node: node as Partial<NodeConfig> };
+  if (env.BENOR_BASE_PORT) input.basePort = envNumber(env, "BENOR_BASE_PORT");
+  if (env.BENOR_FAULT_MODEL) {
+    const model = env.BENOR_FAULT_MODEL;
+    if (model !== "crash" && model !== "byzantine" && model !== "none") {
+      throw new Error(`BENOR_FAULT_MODEL must be crash, byzantine or none, got "${model}"`);
+    }
+    input.faultModel = model === "none" ? null : (model as FaultModel);
+  }
+  return input;
+}
+
+// defaults, overridden by the launch's configuration, overridden by the environment
+// so that an experiment can be tuned without editing its source
+export function resolveConfig(
+  input: NetworkConfigInput = {},
+  env: NodeJS.ProcessEnv = process.env
+): NetworkConfig {
+  const fromEnv = configFromEnv(env);
+  return {
+    ...DEFAULT_NETWORK_CONFIG,
+    ...input,
+    ...fromEnv,
+    node: { ...DEFAULT_NODE_CONFIG, ...input.node, ...fromEnv.node },
+  };
+}
+
+// every problem of a configuration for a network of N nodes with F faulty ones
+export function configErrors(config: NetworkConfig, N: number, F: number): string[] {
+  const errors: string[] = [];
+  const { node } = config;
+
+  if (!Number.isInteger(N) || N < 1) errors.push("N must be a positive integer");
+  if (!Number.isInteger(F) || F < 0 || F > N) errors.push("F must be an integer from 0 to N");
+  if (config.faultModel === "crash" && 2 * F >= N) {
+    errors.push(`F must be below N/2 for crash faults, got N=${N} and F=${F}`);
+  }
+  if (config.faultModel === "byzantine" && 5 * F >= N) {
+    errors.push(`F must be below N/5 for Byzantine faults, got N=${N} and F=${F}`);
+  }
+  if (!Number.isInteger(config.basePort) || config.basePort < 1 || config.basePort > 65535) {
+    errors.push("basePort must be a port number");
+  }
+
+  if (node.maxRounds !== null && !(Number.isInteger(node.maxRounds) && node.maxRounds >= 1)) {
+    errors.push("maxRounds must be a positive integer, or null for unbounded rounds");
+  }
+  if (!Number.isInteger(node.sendAttempts) || node.sendAttempts < 1) {
+    errors.push("sendAttempts must be a positive integer");
+  }
+  (
+    ["sendTimeout", "readinessPoll", "messagePoll", "gatherTimeout", "echoTimeout"] as const
+  ).forEach((key) => {
+    if (!(node[key] > 0)) errors.push(`${key} must be positive`);
+  });
+  if (!(node.retryBackoff >= 0)) errors.push("retryBackoff must not be negative");
+  if (!Number.isInteger(node.traceLimit) || node.traceLimit < 0) {
+    errors.push("traceLimit must be a non-negative integer");
+  }
+
+  return errors;
+}
+
+export function validateConfig(config: NetworkConfig, N: number, F: number) {
+  const errors = configErrors(config, N, F);
+  if (errors.length > 0) throw new Error(`Invalid configuration: ${errors.join("; ")}`);
+}
@@ -0,0 +1,5 @@
+export const BASE_NODE_PORT = 3000;
+export const OBSERVER_PORT = 2000;
+
+// consensus instance driven by the /start and /getState routes
+export const DEFAULT_INSTANCE = "default";
@@ -0,0 +1,10 @@
+export {
+  configErrors,
+  configFromEnv,
+  DEFAULT_NETWORK_CONFIG,
+  DEFAULT_NODE_CONFIG,
+  resolveConfig,
+  validateConfig,
+} from "./config";
+export { BASE_NODE_PORT, DEFAULT_INSTANCE, OBSERVER_PORT } from "./constants";
+export type { FaultModel, NetworkConfig, NetworkConfigInput, NodeConfig } from "./types";
@@ -0,0 +1,33 @@
+// timing of a node, the same for every node of a launch. Times are in ms
+export type NodeConfig = {
+  maxRounds: number | null; // rounds an instance runs before giving up, null to run until decided
+  sendTimeout: number; // a send, a forward or a resend request is aborted after it
+  sendAttempts: number; // a message is given up on after this many failed sends
+  retryBackoff: number; // wait between two attempts to send a message
+  readinessPoll: number; // wait between two checks that every node is up, or that a join went through
+  messagePoll: number; // wait between two checks for the messages of a phase
+  // a wait for N - F messages making no progress for this long counts as timed out
+  // in the metrics and asks the members not heard from to send their messages again
+  gatherTimeout: number;
+  echoTimeout: number; // a multi-valued node waits this long for the echoes of the value agreed on
+  traceLimit: number; // events a node keeps for GET /trace, the oldest ones are dropped first
+};
+
+// crash: faulty nodes stop, N > 2F is needed. byzantine: faulty nodes lie, Ben-Or needs N > 5F
+export type FaultModel = "crash" | "byzantine";
+
+export type NetworkConfig = {
+  basePort: number; // HTTP nodes listen on basePort + nodeId
+  // the nodes take the thresholds of this model and a launch refuses an F past
+  // its bound. A launch given fault strategies takes their model when none is
+  // set. Without one the nodes take the crash thresholds and any F goes, so
+  // that runs beyond the threshold can be observed: agreement and termination
+  // are then only as good as the F given
+  faultModel: FaultModel | null;
+  node: NodeConfig;
+};
+
+// what a launch is given, every field left out takes its default
+export type NetworkConfigInput = Partial<Omit<NetworkConfig, "node">> & {
+  node?: Partial<NodeConfig>;
+};
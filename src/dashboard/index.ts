@@ -0,0 +1,3 @@
+export { dashboardPage } from "./page";
+export { dashboardRoutes } from "./routes";
+export type { DashboardOptions } from "./routes";
@@ -0,0 +1,124 @@
+import { FAULT_NAMES } from "../faults";
+
+// single page following GET /events, no build step nor dependency
+export function dashboardPage(N: number) {
+  const faults = FAULT_NAMES.map((name) => `<option value='${name}'>${name}</option>`).join("");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Ben-Or network</title>
+<style>
+  body { font-family: sans-serif; margin: 1.5rem; background: #f6f7f9; color: #222; }
+  h1 { font-size: 1.3rem; }
+  #summary { margin-bottom: 1rem; }
+  #nodes { display: grid; grid-template-columns: repeat(auto-fill, minmax(11rem, 1fr)); gap: 0.8rem; }
+  .card { background: #fff; border: 2px solid #ccd; border-radius: 6px; padding: 0.6rem; transition: box-shadow 0.2s; }
+  .card h2 { font-size: 1rem; margin: 0 0 0.4rem; }
+  .card.decided { border-color: #3a3; }
+  .card.killed { border-color: #999; opacity: 0.6; }
+  .card.faulty { border-color: #c33; }
+  .card.unreachable { border-style: dashed; }
+  .card.receiving { box-shadow: 0 0 0 3px #8ad; }
+  .card dl { display: grid; grid-template-columns: auto 1fr; margin: 0 0 0.5rem; gap: 0 0.5rem; }
+  .card dt { color: #666; }
+  .card select, .card button { font-size: 0.8rem; }
+  #feed { font-family: monospace; font-size: 0.8rem; max-height: 16rem; overflow-y: auto; background: #fff; padding: 0.5rem; margin-top: 1rem; }
+  .violation { color: #c33; font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>Ben-Or network of ${N} nodes</h1>
+<div id="summary">connecting...</div>
+<div id="nodes"></div>
+<div id="feed"></div>
+<script>
+const N = ${N};
+const nodes = document.getElementById("nodes");
+const feed = document.getElementById("feed");
+
+for (let id = 0; id < N; id++) {
+  const card = document.createElement("div");
+  card.className = "card";
+  card.id = "node-" + id;
+  card.innerHTML =
+    "<h2>Node " + id + " <small class='status'></small></h2>" +
+    "<dl><dt>x</dt><dd class='x'>-</dd><dt>k</dt><dd class='k'>-</dd>" +
+    "<dt>decided</dt><dd class='decided'>-</dd></dl>" +
+    "<button class='stop'>Stop</button> " +
+    "<select class='fault'>${faults}</select> <button class='inject'>Inject</button>";
+  card.querySelector(".stop").onclick = () => fetch("/nodes/" + id + "/stop", { method: "POST" });
+  card.querySelector(".inject").onclick = () =>
+    fetch("/nodes/" + id + "/fault", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ strategy: card.querySelector(".fault").value }),
+    });
+  nodes.appendChild(card);
+}
+
+function show(value) {
+  return value === null || value === undefined ? "-" : JSON.stringify(value);
+}
+
+function log(line) {
+  const el = document.createElement("div");
+  el.textContent = line;
+  feed.prepend(el);
+  while (feed.childElementCount > 200) feed.lastChild.remove();
+}
+
+const events = new EventSource("/events");
+
+events.addEventListener("summary", (event) => {
+  const summary = JSON.parse(event.data);
+  const b = summary.breakdown;
+  // values and messages come from the nodes, they are set as text and never parsed as HTML
+  const summaryEl = document.getElementById("summary");
+  summaryEl.textContent =
+    b.live + " live, " + b.killed + " killed, " + b.faulty + " faulty, " + b.unreachable +
+    " unreachable. Finality: " + summary.finality + ", decided value: " + show(summary.decidedValue);
+  summary.violations.forEach((v) => {
+    const el = document.createElement("div");
+    el.className = "violation";
+    el.textContent = v.message;
+    summaryEl.appendChild(el);
+  });
+
+  summary.nodes.forEach((state, id) => {
+    const card = document.getElementById("node-" + id);
+    if (!card) return;
+    const faulty = state && state.x === null && state.decided === null && state.k === null;
+    const status = state === null ? "unreachable" : faulty ? "faulty" : state.killed ? "killed" : "live";
+    card.classList.toggle("unreachable", state === null);
+    card.classList.toggle("faulty", faulty);
+    card.classList.toggle("killed", !!(state && state.killed));
+    card.classList.toggle("decided", !!(state && state.decided));
+    card.querySelector(".status").textContent = status;
+    card.querySelector(".x").textContent = show(state && state.x);
+    card.querySelector(".k").textContent = show(state && state.k);
+    card.querySelector(".decided").textContent = show(state && state.decided);
+  });
+});
+
+events.addEventListener("trace", (event) => {
+  const e = JSON.parse(event.data);
+  if (e.type === "message-sent") {
+    if (e.data.to === e.nodeId) return;
+    log(e.nodeId + " -> " + e.data.to + "  round " + e.round + " phase " + e.phase + ": " + show(e.data.value));
+    const card = document.getElementById("node-" + e.data.to);
+    if (card) {
+      card.classList.add("receiving");
+      setTimeout(() => card.classList.remove("receiving"), 150);
+    }
+    return;
+  }
+  log("node " + e.nodeId + " " + e.type + (e.round !== null ? " round " + e.round : "") +
+    (e.data && "value" in e.data ? ": " + show(e.data.value) : ""));
+});
+</script>
+</body>
+</html>
+`;
+}
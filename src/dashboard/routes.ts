@@ -0,0 +1,94 @@
+import express from "express";
+import { NetworkSummary } from "../nodes/observer";
+import { validateFaultRequest } from "../protocol";
+import { TraceEventType, TraceRecorder } from "../trace";
+import { Transport } from "../transport";
+import { dashboardPage } from "./page";
+
+// events worth showing live, the others would flood the page
+const LIVE_EVENTS: TraceEventType[] = [
+  "round-start",
+  "message-sent",
+  "coin-flip",
+  "decision",
+  "start-failed",
+  "stop",
+  "restart",
+];
+
+export type DashboardOptions = {
+  N: number;
+  transport: Transport;
+  summary: () => Promise<NetworkSummary<unknown>>;
+  trace?: TraceRecorder; // streams the nodes' events when they run in this process
+  interval?: number; // ms between two summaries, 500 by default
+};
+
+// GET /dashboard page, its GET /events stream and the actions it triggers
+export function dashboardRoutes(options: DashboardOptions) {
+  const router = express.Router();
+  router.use(express.json());
+
+  router.get("/dashboard", (req, res) => {
+    res.status(200).type("html").send(dashboardPage(options.N));
+  });
+
+  // Server-Sent Events: "summary" with the network summary every interval,
+  // "trace" with every live event of the nodes
+  router.get("/events", (req, res) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    // summaries can settle after the client went away
+    const send = (event: string, data: unknown) => {
+      if (res.writableEnded || res.destroyed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // a summary that could not be gathered is skipped, the next interval tries again
+    const push = () => {
+      options
+        .summary()
+        .then((summary) => send("summary", summary))
+        .catch(() => {});
+    };
+    push();
+    const timer = setInterval(push, options.interval ?? 500);
+    const unsubscribe = options.trace?.subscribe((event) => {
+      if (LIVE_EVENTS.includes(event.type)) send("trace", event);
+    });
+
+    req.on("close", () => {
+      clearInterval(timer);
+      unsubscribe?.();
+    });
+  });
+
+  router.post("/nodes/:id/stop", async (req, res) => {
+    try {
+      await options.transport.stop(Number(req.params.id));
+      res.status(200).send("Node stopped");
+    } catch (error) {
+      res.status(502).send(`Node ${req.params.id} could not be reached`);
+    }
+  });
+
+  // body: { strategy, arg? }
+  router.post("/nodes/:id/fault", async (req, res) => {
+    const validation = validateFaultRequest(req.body);
+    if (!validation.ok) {
+      res.status(400).json(validation.error);
+      return;
+    }
+    try {
+      await options.transport.injectFault(Number(req.params.id), validation.value);
+      res.status(200).send("Fault injected");
+    } catch (error) {
+      res.status(400).send((error as Error).message);
+    }
+  });
+
+  return router;
+}
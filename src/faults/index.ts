@@ -0,0 +1,10 @@
+export { FAULT_NAMES, faultFromSpec, faultModelOf, faultsFromSpecs } from "./spec";
+export type { FaultName, FaultSpec } from "./spec";
+export {
+  crashAtRound,
+  delayAndReplay,
+  equivocate,
+  randomValues,
+  voteMinority,
+} from "./strategies";
+export type { FaultContext, FaultStrategy, OutgoingMessage } from "./types";
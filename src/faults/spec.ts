@@ -0,0 +1,50 @@
+import { FaultModel } from "../config";
+import {
+  crashAtRound,
+  delayAndReplay,
+  equivocate,
+  randomValues,
+  voteMinority,
+} from "./strategies";
+import { FaultStrategy } from "./types";
+
+export type FaultName =
+  | "crash-at-round"
+  | "equivocate"
+  | "vote-minority"
+  | "random-values"
+  | "delay-and-replay";
+
+// serializable fault strategy, arg is the round or the delay of the strategies taking one
+export type FaultSpec = {
+  strategy: FaultName;
+  arg?: number;
+};
+
+const builders: Record<FaultName, (arg?: number) => FaultStrategy> = {
+  "crash-at-round": (arg) => crashAtRound(arg ?? 1),
+  equivocate: () => equivocate(),
+  "vote-minority": () => voteMinority(),
+  "random-values": () => randomValues(),
+  "delay-and-replay": (arg) => delayAndReplay(arg ?? 50),
+};
+
+export const FAULT_NAMES = Object.keys(builders) as FaultName[];
+
+export function faultFromSpec(spec: FaultSpec): FaultStrategy {
+  const build = builders[spec.strategy];
+  if (build === undefined) throw new Error(`Unknown fault strategy ${spec.strategy}`);
+  return build(spec.arg);
+}
+
+// fault strategies by node index
+export function faultsFromSpecs(specs: Record<number, FaultSpec>) {
+  return Object.fromEntries(
+    Object.entries(specs).map(([index, spec]) => [index, faultFromSpec(spec)])
+  ) as Record<number, FaultStrategy>;
+}
+
+// model whose thresholds and bound on F hold against these strategies
+export function faultModelOf(strategies: FaultStrategy[]): FaultModel {
+  return strategies.every((strategy) => strategy.honest) ? "crash" : "byzantine";
+}
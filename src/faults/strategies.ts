@@ -0,0 +1,72 @@
+import { Message, Value } from "../types";
+import { FaultStrategy, OutgoingMessage } from "./types";
+
+// behaves correctly, then goes silent from round k on
+export function crashAtRound(k: number): FaultStrategy {
+  return {
+    name: `crash-at-round-${k}`,
+    honest: true,
+    intercept: (message) => (message.round >= k ? [] : [{ message }]),
+  };
+}
+
+// tells half of its peers 0 and the other half 1
+export function equivocate(): FaultStrategy {
+  return {
+    name: "equivocate",
+    intercept: (message, to) => [{ message: { ...message, value: (to % 2) as Value } }],
+  };
+}
+
+// always sends the value the fewest peers have sent so far in this phase
+export function voteMinority(): FaultStrategy {
+  return {
+    name: "vote-minority",
+    intercept(message, to, context) {
+      const votes = context.received(message.phase, message.round);
+      const count0 = votes.filter((v) => v === 0).length;
+      const count1 = votes.filter((v) => v === 1).length;
+
+      let value: Value;
+      if (count0 !== count1) {
+        value = count0 < count1 ? 0 : 1;
+      } else {
+        // no minority yet, contradict our own estimate
+        value = context.estimate === 1 ? 0 : 1;
+      }
+
+      return [{ message: { ...message, value } }];
+    },
+  };
+}
+
+// sends a random value, including "?", to each peer
+export function randomValues(): FaultStrategy {
+  const values: Value[] = [0, 1, "?"];
+
+  return {
+    name: "random-values",
+    intercept: (message, to, context) => [
+      { message: { ...message, value: values[Math.floor(context.random() * values.length)] } },
+    ],
+  };
+}
+
+// delays every message by delayMs and sends the one it sent before to the
+// same peer again, only that one so that traffic stays linear in the rounds
+export function delayAndReplay(delayMs: number): FaultStrategy {
+  const previous = new Map<number, Message<unknown>>(); // last message by recipient
+
+  return {
+    name: `delay-and-replay-${delayMs}`,
+    honest: true,
+    intercept(message, to) {
+      const old = previous.get(to);
+      previous.set(to, message);
+
+      const outgoing: OutgoingMessage[] = [{ message, delay: delayMs }];
+      if (old) outgoing.push({ message: old, delay: delayMs });
+      return outgoing;
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import { Random } from "../simulation";
+import { Message, Phase } from "../types";
+
+// what a faulty node knows when it tampers with a message
+export type FaultContext = {
+  nodeId: number;
+  N: number;
+  random: Random;
+  estimate: unknown; // the value the node would have sent if it were correct
+  received: (phase: Phase, round: number) => unknown[]; // messages received so far
+};
+
+// a message actually sent, after `delay` ms if set
+export type OutgoingMessage = {
+  message: Message<unknown>;
+  delay?: number;
+};
+
+// behaviour of a faulty node that keeps taking part in the protocol,
+// one instance per node as strategies may keep state
+export interface FaultStrategy {
+  name: string;
+  // only sends what a correct node would, late or twice at most: the crash
+  // model covers it. Strategies without it are taken to lie
+  honest?: boolean;
+  // turns a message the node is about to send to `to` into what is really sent
+  intercept(message: Message<unknown>, to: number, context: FaultContext): OutgoingMessage[];
+}
@@ -0,0 +1,30 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Scenario } from "./types";
+
+export function scenarioName(scenario: Scenario) {
+  return `n${scenario.N}-f${scenario.F}-seed${scenario.seed}`;
+}
+
+// saves a scenario as a regression fixture, returns the file written
+export function saveFixture(dir: string, scenario: Scenario, name: string = scenarioName(scenario)) {
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, `${name}.json`);
+  fs.writeFileSync(file, JSON.stringify(scenario, null, 2) + "\n");
+  return file;
+}
+
+// every fixture of a directory by name
+export function loadFixtures(dir: string): Record<string, Scenario> {
+  if (!fs.existsSync(dir)) return {};
+  return Object.fromEntries(
+    fs
+      .readdirSync(dir)
+      .filter((file) => file.endsWith(".json"))
+      .sort()
+      .map((file) => [
+        path.basename(file, ".json"),
+        JSON.parse(fs.readFileSync(path.join(dir, file), "utf8")) as Scenario,
+      ])
+  );
+}
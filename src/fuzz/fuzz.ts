@@ -0,0 +1,31 @@
+import { createRandom } from "../simulation";
+import { generateScenario, GeneratorOptions, runScenario, RunScenarioOptions } from "./scenario";
+import { shrink } from "./shrink";
+import { Failure } from "./types";
+
+export type FuzzOptions = GeneratorOptions &
+  RunScenarioOptions & {
+    runs?: number; // number of scenarios sampled, 50 by default
+    seed?: number; // seed of the sampling, 1 by default
+  };
+
+// samples scenarios, runs them and shrinks the ones violating a property
+export async function fuzz(options: FuzzOptions = {}) {
+  const random = createRandom(options.seed ?? 1);
+  const runs = options.runs ?? 50;
+  const failures: Failure[] = [];
+
+  for (let run = 0; run < runs; run++) {
+    const scenario = generateScenario(random, options);
+    const { violations } = await runScenario(scenario, options);
+    if (violations.length === 0) continue;
+
+    const minimal = await shrink(
+      scenario,
+      async (candidate) => (await runScenario(candidate, options)).violations.length > 0
+    );
+    failures.push({ scenario, violations, minimal });
+  }
+
+  return { runs, failures };
+}
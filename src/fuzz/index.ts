@@ -0,0 +1,7 @@
+export { loadFixtures, saveFixture, scenarioName } from "./fixtures";
+export { fuzz } from "./fuzz";
+export type { FuzzOptions } from "./fuzz";
+export { generateScenario, runScenario } from "./scenario";
+export type { GeneratorOptions, RunScenarioOptions } from "./scenario";
+export { shrink } from "./shrink";
+export type { Failure, Scenario, ScenarioResult } from "./types";
@@ -0,0 +1,113 @@
+import { FAULT_NAMES, FaultName, FaultSpec, faultsFromSpecs } from "../faults";
+import { launchNetwork } from "../index";
+import { createNetworkConditions } from "../network";
+import { startConsensus } from "../nodes/consensus";
+import { checkProperties } from "../properties";
+import { createRandom, createSimulation, Random } from "../simulation";
+import { Value } from "../types";
+import { Scenario, ScenarioResult } from "./types";
+
+export type GeneratorOptions = {
+  maxN?: number; // 10 by default
+  byzantine?: boolean; // byzantine strategies when N > 5F, true by default
+  network?: boolean; // adverse network conditions, true by default
+};
+
+export type RunScenarioOptions = {
+  maxTime?: number; // virtual time after which the run stops, 10000 by default
+  roundBudget?: number; // checks termination when given
+};
+
+function pick<T>(random: Random, items: T[]) {
+  return items[Math.floor(random() * items.length)] as T;
+}
+
+function sampleFault(random: Random, byzantine: boolean): FaultSpec {
+  const strategy: FaultName = byzantine
+    ? pick(random, FAULT_NAMES)
+    : "crash-at-round";
+  if (strategy === "crash-at-round") return { strategy, arg: 1 + Math.floor(random() * 3) };
+  if (strategy === "delay-and-replay") return { strategy, arg: Math.floor(random() * 100) };
+  return { strategy };
+}
+
+// samples a scenario within the fault tolerance of the protocol: N > 2F, and
+// N > 5F for byzantine strategies
+export function generateScenario(random: Random, options: GeneratorOptions = {}): Scenario {
+  const maxN = options.maxN ?? 10;
+  const N = 1 + Math.floor(random() * maxN);
+  const F = Math.floor(random() * (Math.floor((N - 1) / 2) + 1));
+
+  // F distinct faulty nodes
+  const order = new Array(N).fill(0).map((_, index) => index);
+  for (let index = N - 1; index > 0; index--) {
+    const other = Math.floor(random() * (index + 1));
+    [order[index], order[other]] = [order[other] as number, order[index] as number];
+  }
+  const faultyList = new Array(N).fill(false).map((_, index) => order.indexOf(index) < F);
+
+  // unanimous inputs every now and then to exercise validity
+  const unanimous = random() < 0.3;
+  const first: Value = random() < 0.5 ? 0 : 1;
+  const initialValues: Value[] = faultyList.map(() =>
+    unanimous ? first : random() < 0.5 ? 0 : 1
+  );
+
+  const byzantine = (options.byzantine ?? true) && N > 5 * F;
+  const faults: Record<number, FaultSpec> = {};
+  faultyList.forEach((faulty, index) => {
+    if (faulty && random() < 0.5) faults[index] = sampleFault(random, byzantine);
+  });
+
+  const scenario: Scenario = {
+    seed: Math.floor(random() * 2 ** 31),
+    N,
+    F,
+    initialValues,
+    faultyList,
+    faults,
+  };
+  if ((options.network ?? true) && random() < 0.5) {
+    scenario.network = {
+      latency: { type: "uniform", min: 0, max: Math.floor(random() * 50) },
+      duplicateRate: random() * 0.2,
+      reorderRate: random() * 0.3,
+    };
+  }
+  return scenario;
+}
+
+// runs a scenario in a seeded simulation and checks the properties of its final states
+export async function runScenario(
+  scenario: Scenario,
+  options: RunScenarioOptions = {}
+): Promise<ScenarioResult> {
+  const simulation = createSimulation(scenario.seed);
+  const faults = faultsFromSpecs(scenario.faults);
+  const network = scenario.network
+    ? createNetworkConditions(
+        { default: scenario.network },
+        { clock: simulation.clock, random: createRandom(scenario.seed ^ 0x2545f491) }
+      )
+    : undefined;
+
+  await launchNetwork(scenario.N, scenario.F, scenario.initialValues, scenario.faultyList, {
+    simulation,
+    faults,
+    ...(network ? { network } : {}),
+  });
+  await startConsensus(scenario.N, simulation.transport);
+  await simulation.run({ maxTime: options.maxTime ?? 10000 });
+
+  const states = await Promise.all(
+    scenario.faultyList.map((_, index) => simulation.transport.getState(index))
+  );
+  const violations = checkProperties({
+    initialValues: scenario.initialValues,
+    faultyList: scenario.faultyList,
+    states,
+    ...(options.roundBudget !== undefined ? { roundBudget: options.roundBudget } : {}),
+  });
+
+  return { scenario, states, violations };
+}
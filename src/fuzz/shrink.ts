@@ -0,0 +1,91 @@
+import { faultModelOf, faultsFromSpecs } from "../faults";
+import { Scenario } from "./types";
+
+function withoutNode(scenario: Scenario, removed: number): Scenario {
+  const faults: Scenario["faults"] = {};
+  Object.entries(scenario.faults).forEach(([key, spec]) => {
+    const index = Number(key);
+    if (index !== removed) faults[index > removed ? index - 1 : index] = spec;
+  });
+
+  return {
+    ...scenario,
+    N: scenario.N - 1,
+    F: scenario.F - (scenario.faultyList[removed] ? 1 : 0),
+    initialValues: scenario.initialValues.filter((_, index) => index !== removed),
+    faultyList: scenario.faultyList.filter((_, index) => index !== removed),
+    faults,
+  };
+}
+
+function withoutFault(scenario: Scenario, index: number): Scenario {
+  const faults = { ...scenario.faults };
+  delete faults[index];
+  return { ...scenario, faults };
+}
+
+function asCorrect(scenario: Scenario, index: number): Scenario {
+  return {
+    ...withoutFault(scenario, index),
+    F: scenario.F - 1,
+    faultyList: scenario.faultyList.map((faulty, other) => faulty && other !== index),
+  };
+}
+
+// same bounds as the launch: N > 2F, and N > 5F once a faulty node lies, a
+// variant past them fails for lack of tolerance rather than the bug
+function withinTolerance({ N, F, faults }: Scenario) {
+  const model = faultModelOf(Object.values(faultsFromSpecs(faults)));
+  return N > (model === "byzantine" ? 5 : 2) * F;
+}
+
+// simpler variants of a scenario within the fault tolerance, simplest first
+function candidates(scenario: Scenario): Scenario[] {
+  const nodes = scenario.faultyList.map((_, index) => index);
+  const result: Scenario[] = [];
+
+  if (scenario.network) {
+    const { network, ...rest } = scenario;
+    result.push(rest);
+  }
+  if (scenario.N > 1) result.push(...nodes.map((index) => withoutNode(scenario, index)));
+  nodes
+    .filter((index) => scenario.faultyList[index])
+    .forEach((index) => result.push(asCorrect(scenario, index)));
+  Object.keys(scenario.faults).forEach((index) =>
+    result.push(withoutFault(scenario, Number(index)))
+  );
+  nodes
+    .filter((index) => scenario.initialValues[index] === 1)
+    .forEach((index) =>
+      result.push({
+        ...scenario,
+        initialValues: scenario.initialValues.map((value, other) =>
+          other === index ? 0 : value
+        ),
+      })
+    );
+  return result.filter(withinTolerance);
+}
+
+// greedily replaces the scenario by the first simpler variant that still fails,
+// until none does
+export async function shrink(
+  scenario: Scenario,
+  fails: (scenario: Scenario) => Promise<boolean>,
+  maxSteps: number = 100
+): Promise<Scenario> {
+  let current = scenario;
+  for (let step = 0; step < maxSteps; step++) {
+    let simpler: Scenario | undefined;
+    for (const candidate of candidates(current)) {
+      if (await fails(candidate)) {
+        simpler = candidate;
+        break;
+      }
+    }
+    if (simpler === undefined) return current;
+    current = simpler;
+  }
+  return current;
+}
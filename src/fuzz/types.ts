@@ -0,0 +1,27 @@
+import { FaultSpec } from "../faults";
+import { LinkConditions } from "../network";
+import { Violation } from "../properties";
+import { NodeState, Value } from "../types";
+
+// everything needed to replay a run, plain JSON so it can be saved as a fixture
+export type Scenario = {
+  seed: number;
+  N: number;
+  F: number;
+  initialValues: Value[];
+  faultyList: boolean[];
+  faults: Record<number, FaultSpec>; // faulty nodes without one crash silently
+  network?: LinkConditions; // conditions of every link
+};
+
+export type ScenarioResult = {
+  scenario: Scenario;
+  states: NodeState<unknown>[];
+  violations: Violation[];
+};
+
+export type Failure = {
+  scenario: Scenario; // scenario as sampled
+  violations: Violation[];
+  minimal: Scenario; // smallest scenario still failing
+};
@@ -1,14 +1,18 @@
-import { launchNodes } from "./nodes/launchNodes";
-import { Value } from "./types";
+import { LaunchOptions, launchNodes } from "./nodes/launchNodes";
+import { createNetwork, Network } from "./nodes/network";
+import { BinaryValue, Value } from "./types";
 
-export async function launchNetwork(
+export type { AwaitDecisionOptions, Network } from "./nodes/network";
+
+export async function launchNetwork<V = BinaryValue>(
   N: number,
   F: number,
-  initialValues: Value[],
-  faultyList: boolean[]
-) {
+  initialValues: Value<V>[],
+  faultyList: boolean[],
+  options: LaunchOptions = {}
+): Promise<Network> {
   // launch all nodes
-  const nodes = await launchNodes(N, F, initialValues, faultyList);
+  const nodes = await launchNodes(N, F, initialValues, faultyList, options);
 
-  return nodes;
+  return createNetwork(N, nodes, options);
 }
@@ -0,0 +1,49 @@
+import { FaultModel } from "../config";
+import { Configuration, MembershipChange } from "./types";
+
+export function initialConfiguration(
+  N: number,
+  F: number,
+  faultModel: FaultModel | null
+): Configuration {
+  const members = new Array(N).fill(0).map((_, index) => index);
+  return { epoch: 0, members, F, faultModel, resilience: F };
+}
+
+// most faulty nodes N members tolerate: N > 5F when they may lie, N > 2F otherwise
+function tolerated(N: number, faultModel: FaultModel | null) {
+  return Math.max(0, Math.floor((N - 1) / (faultModel === "byzantine" ? 5 : 2)));
+}
+
+export function isMembershipChange(data: unknown): data is MembershipChange {
+  if (typeof data !== "object" || data === null) return false;
+  const change = data as Record<string, unknown>;
+  if (!Number.isInteger(change.node)) return false;
+  if (change.membership === "leave") return true;
+  return (
+    change.membership === "join" &&
+    typeof change.publicKey === "string" &&
+    (change.address === undefined || typeof change.address === "string")
+  );
+}
+
+// next epoch after a committed change. F is the resilience the network was
+// launched with as long as the members tolerate it under the fault model, and
+// the most they tolerate otherwise: it is lowered on leaves and raised back on
+// joins, the same on every node since the configuration carries both
+export function applyChange(
+  configuration: Configuration,
+  change: MembershipChange
+): Configuration {
+  const members =
+    change.membership === "join"
+      ? Array.from(new Set([...configuration.members, change.node])).sort((a, b) => a - b)
+      : configuration.members.filter((member) => member !== change.node);
+
+  return {
+    ...configuration,
+    epoch: configuration.epoch + 1,
+    members,
+    F: Math.min(configuration.resilience, tolerated(members.length, configuration.faultModel)),
+  };
+}
@@ -0,0 +1,2 @@
+export { applyChange, initialConfiguration, isMembershipChange } from "./configuration";
+export type { Configuration, MembershipChange, MembershipSnapshot } from "./types";
@@ -0,0 +1,31 @@
+import { FaultModel } from "../config";
+import { LogEntry } from "../types";
+
+// who takes part in the instances started during an epoch, and how many of
+// them may fail
+export type Configuration = {
+  epoch: number;
+  members: number[]; // sorted node ids
+  F: number;
+  faultModel: FaultModel | null; // the bound F is kept within, crash's N > 2F when null
+  resilience: number; // the F the network was launched with, F goes back up to it on joins
+};
+
+// replicated log entry data changing the configuration once committed
+export type MembershipChange =
+  | {
+      membership: "join";
+      node: number;
+      publicKey: string; // base64 DER, so that the members can check its messages
+      address?: string; // base URL the node is reached at, for transports with explicit peers
+    }
+  | { membership: "leave"; node: number };
+
+// what a joining node bootstraps from, taken from one of the members at once
+export type MembershipSnapshot = {
+  configuration: Configuration;
+  publicKeys: Record<number, string>; // base64 DER of every member
+  addresses: Record<number, string>; // explicit addresses known to the member
+  entries: LogEntry[]; // committed log, the configuration is the one it leads to
+  pending: LogEntry[]; // entries heard of but not committed yet
+};
@@ -0,0 +1,42 @@
+import { Transport } from "../transport";
+import { MetricFamily } from "./types";
+
+// one family per metric with the series of every node, told apart by a node
+// label, and an up gauge telling which nodes could be scraped
+export function mergeMetrics(byNode: (MetricFamily[] | null)[]): MetricFamily[] {
+  const merged = new Map<string, MetricFamily>();
+  const up: MetricFamily = {
+    name: "benor_up",
+    help: "Whether the node's metrics could be scraped",
+    type: "gauge",
+    samples: [],
+  };
+
+  byNode.forEach((families, index) => {
+    const node = String(index);
+    up.samples.push({ labels: { node }, value: families === null ? 0 : 1 });
+
+    families?.forEach((family) => {
+      const samples = family.samples.map((sample) => ({
+        ...sample,
+        labels: { ...sample.labels, node },
+      }));
+      const existing = merged.get(family.name);
+      if (existing === undefined) {
+        merged.set(family.name, { ...family, samples } as MetricFamily);
+      } else {
+        (existing.samples as typeof samples).push(...samples);
+      }
+    });
+  });
+
+  return [up, ...merged.values()];
+}
+
+// scrapes nodes 0 to N - 1, unreachable ones are reported down
+export async function collectMetrics(N: number, transport: Transport) {
+  const byNode = await Promise.all(
+    new Array(N).fill(0).map((_, index) => transport.getMetrics(index).catch(() => null))
+  );
+  return mergeMetrics(byNode);
+}
@@ -0,0 +1,42 @@
+import { Labels, MetricFamily } from "./types";
+
+// label values can come from requests (instance ids), a raw newline would
+// split the sample in two
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length === 0 ? "" : `{${pairs.join(",")}}`;
+}
+
+// Prometheus text exposition format, version 0.0.4
+export function toPrometheus(families: MetricFamily[]) {
+  const lines: string[] = [];
+
+  for (const family of families) {
+    lines.push(`# HELP ${family.name} ${family.help}`, `# TYPE ${family.name} ${family.type}`);
+
+    if (family.type !== "histogram") {
+      family.samples.forEach(({ labels, value }) => {
+        lines.push(`${family.name}${formatLabels(labels)} ${value}`);
+      });
+      continue;
+    }
+
+    family.samples.forEach(({ labels, counts, sum, count }) => {
+      family.buckets.forEach((bound, index) => {
+        const le = formatLabels({ ...labels, le: String(bound) });
+        lines.push(`${family.name}_bucket${le} ${counts[index] ?? 0}`);
+      });
+      lines.push(`${family.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${family.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${family.name}_count${formatLabels(labels)} ${count}`);
+    });
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4";
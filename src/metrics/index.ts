@@ -0,0 +1,7 @@
+export { collectMetrics, mergeMetrics } from "./aggregate";
+export { PROMETHEUS_CONTENT_TYPE, toPrometheus } from "./format";
+export { createNodeMetrics, messageType } from "./node";
+export type { NodeMetrics } from "./node";
+export { createMetricRegistry } from "./registry";
+export type { MetricRegistry } from "./registry";
+export type { HistogramSample, Labels, MetricFamily, Sample } from "./types";
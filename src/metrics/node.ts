@@ -0,0 +1,42 @@
+import { Phase } from "../types";
+import { createMetricRegistry } from "./registry";
+
+// phase 1 carries reports, phase 2 proposals
+export function messageType(phase: Phase) {
+  return phase === 1 ? "report" : "proposal";
+}
+
+// what a node measures of its own runs, served on its /metrics route
+export function createNodeMetrics() {
+  const registry = createMetricRegistry();
+
+  return {
+    collect: registry.collect,
+    round: registry.gauge("benor_round", "Current round k of each consensus instance"),
+    roundsToDecision: registry.histogram(
+      "benor_rounds_to_decision",
+      "Rounds an instance went through before the node decided",
+      [1, 2, 3, 4, 5, 10, 20]
+    ),
+    decisionLatency: registry.histogram(
+      "benor_decision_latency_ms",
+      "Time from the start of an instance to the node's decision, in ms",
+      [10, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+    ),
+    sent: registry.counter("benor_messages_sent_total", "Messages sent, by type"),
+    received: registry.counter("benor_messages_received_total", "Messages received, by type"),
+    rejected: registry.counter("benor_messages_rejected_total", "Messages refused, by reason"),
+    retries: registry.counter("benor_send_retries_total", "Sends attempted again after a failure"),
+    failures: registry.counter(
+      "benor_send_failures_total",
+      "Messages given up on after every attempt failed"
+    ),
+    gatherTimeouts: registry.counter(
+      "benor_gather_timeouts_total",
+      "Waits for N - F messages that outlasted the gather timeout"
+    ),
+    coinFlips: registry.counter("benor_coin_flips_total", "Coin flips, by value"),
+  };
+}
+
+export type NodeMetrics = ReturnType<typeof createNodeMetrics>;
@@ -0,0 +1,84 @@
+import { valueKey } from "../utils";
+import { HistogramSample, Labels, MetricFamily, Sample } from "./types";
+
+export type MetricRegistry = ReturnType<typeof createMetricRegistry>;
+
+// counters, gauges and histograms of one node, one series per set of labels
+export function createMetricRegistry() {
+  const collectors: (() => MetricFamily)[] = [];
+
+  function series<T extends { labels: Labels }>(create: (labels: Labels) => T) {
+    const byLabels = new Map<string, T>();
+    return {
+      get(labels: Labels) {
+        const key = valueKey(labels);
+        let sample = byLabels.get(key);
+        if (sample === undefined) {
+          sample = create(labels);
+          byLabels.set(key, sample);
+        }
+        return sample;
+      },
+      all: () => Array.from(byLabels.values()),
+    };
+  }
+
+  function scalar(name: string, help: string, type: "counter" | "gauge") {
+    const samples = series<Sample>((labels) => ({ labels, value: 0 }));
+    collectors.push(() => ({
+      name,
+      help,
+      type,
+      samples: samples.all().map((sample) => ({ ...sample })),
+    }));
+    return samples;
+  }
+
+  return {
+    counter(name: string, help: string) {
+      const samples = scalar(name, help, "counter");
+      return {
+        inc: (labels: Labels = {}, by: number = 1) => {
+          samples.get(labels).value += by;
+        },
+      };
+    },
+
+    gauge(name: string, help: string) {
+      const samples = scalar(name, help, "gauge");
+      return {
+        set: (labels: Labels, value: number) => {
+          samples.get(labels).value = value;
+        },
+      };
+    },
+
+    histogram(name: string, help: string, buckets: number[]) {
+      const samples = series<HistogramSample>((labels) => ({
+        labels,
+        counts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      }));
+      collectors.push(() => ({
+        name,
+        help,
+        type: "histogram",
+        buckets,
+        samples: samples.all().map((sample) => ({ ...sample, counts: [...sample.counts] })),
+      }));
+      return {
+        observe: (labels: Labels, value: number) => {
+          const sample = samples.get(labels);
+          buckets.forEach((bound, index) => {
+            if (value <= bound) sample.counts[index] = (sample.counts[index] ?? 0) + 1;
+          });
+          sample.sum += value;
+          sample.count++;
+        },
+      };
+    },
+
+    collect: (): MetricFamily[] => collectors.map((collect) => collect()),
+  };
+}
@@ -0,0 +1,24 @@
+export type Labels = Record<string, string>;
+
+export type Sample = {
+  labels: Labels;
+  value: number;
+};
+
+export type HistogramSample = {
+  labels: Labels;
+  counts: number[]; // cumulative count of observations under each bucket's bound
+  sum: number;
+  count: number;
+};
+
+// every series of a metric, as served on /metrics?format=json and merged by the aggregator
+export type MetricFamily =
+  | { name: string; help: string; type: "counter" | "gauge"; samples: Sample[] }
+  | {
+      name: string;
+      help: string;
+      type: "histogram";
+      buckets: number[]; // upper bounds, +Inf is implied
+      samples: HistogramSample[];
+    };
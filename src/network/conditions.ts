@@ -0,0 +1,187 @@
+import { Clock, Random, realClock } from "../simulation";
+import { Transport } from "../transport";
+import { LatencyDistribution, LinkConditions, NetworkConditions } from "./types";
+
+export type NetworkConditionsOptions = {
+  clock?: Clock;
+  random?: Random; // draws latencies, losses, duplicates and reorderings
+};
+
+export type NetworkController = ReturnType<typeof createNetworkConditions>;
+
+// a copy of a message on its way, dropped when its sender gives up on it or
+// either node closes
+type Delivery = {
+  from: number;
+  to: number;
+  deliver: () => void;
+  cancel: () => void; // before its latency has passed or while it is held
+};
+
+function sampleLatency(latency: LatencyDistribution | undefined, random: Random) {
+  if (latency === undefined) return 0;
+  switch (latency.type) {
+    case "fixed":
+      return latency.ms;
+    case "uniform":
+      return latency.min + random() * (latency.max - latency.min);
+    case "exponential":
+      return -latency.mean * Math.log(1 - random());
+  }
+}
+
+// adverse network between the nodes: the wrapped transport sends every message
+// through the conditions of its link. Sends resolve once the message is on the
+// wire and reject when it is lost, as a missing acknowledgement would tell the
+// sender to try again. Messages across a partition are held back and delivered
+// when it heals, as retransmissions would, unless their signal aborts first
+export function createNetworkConditions(
+  initial: NetworkConditions = {},
+  options: NetworkConditionsOptions = {}
+) {
+  const clock = options.clock ?? realClock;
+  const random = options.random ?? Math.random;
+
+  const conditions: Required<NetworkConditions> = {
+    default: initial.default ?? {},
+    links: { ...initial.links },
+    partitions: { ...initial.partitions },
+  };
+  let held: Delivery[] = [];
+  const pending = new Set<Delivery>(); // waiting for their latency or held
+
+  function linkConditions(from: number, to: number): LinkConditions {
+    return conditions.links[`${from}->${to}`] ?? conditions.default;
+  }
+
+  function isCut(from: number, to: number) {
+    return Object.values(conditions.partitions).some((groups) => {
+      const fromGroup = groups.findIndex((group) => group.includes(from));
+      const toGroup = groups.findIndex((group) => group.includes(to));
+      return fromGroup !== -1 && toGroup !== -1 && fromGroup !== toGroup;
+    });
+  }
+
+  function deliverWhenConnected(delivery: Delivery) {
+    if (isCut(delivery.from, delivery.to)) {
+      held.push(delivery);
+      return;
+    }
+    delivery.deliver();
+  }
+
+  // releases the messages whose link is no longer cut
+  function flush() {
+    const waiting = held;
+    held = [];
+    waiting.forEach(deliverWhenConnected);
+  }
+
+  function schedule(
+    from: number,
+    to: number,
+    latency: number,
+    signal: AbortSignal,
+    deliver: () => Promise<unknown>
+  ) {
+    const delivery: Delivery = {
+      from,
+      to,
+      deliver: () => {
+        settle();
+        deliver().catch(() => {
+          if (!signal.aborted) console.warn(`Node ${to} unreachable from node ${from}`);
+        });
+      },
+      cancel: () => {
+        settle();
+        cancelTimeout();
+        held = held.filter((other) => other !== delivery);
+      },
+    };
+    const settle = () => {
+      pending.delete(delivery);
+      signal.removeEventListener("abort", delivery.cancel);
+    };
+    const cancelTimeout = clock.setTimeout(() => deliverWhenConnected(delivery), latency);
+
+    pending.add(delivery);
+    signal.addEventListener("abort", delivery.cancel, { once: true });
+  }
+
+  // drops what a closed node still had on its way, to it or from it, so that
+  // nothing is delivered after the close and no timer keeps the process alive
+  function drop(nodeId: number) {
+    [...pending]
+      .filter((delivery) => delivery.from === nodeId || delivery.to === nodeId)
+      .forEach((delivery) => delivery.cancel());
+  }
+
+  // false if the message was lost
+  function transmit(
+    from: number,
+    to: number,
+    signal: AbortSignal,
+    deliver: () => Promise<unknown>
+  ) {
+    if (signal.aborted) throw new Error(`Delivery to node ${to} aborted`);
+    const link = linkConditions(from, to);
+    if (random() < (link.dropRate ?? 0)) return false;
+
+    const copies = random() < (link.duplicateRate ?? 0) ? 2 : 1;
+    for (let copy = 0; copy < copies; copy++) {
+      let latency = sampleLatency(link.latency, random);
+      if (random() < (link.reorderRate ?? 0)) {
+        latency += random() * (link.reorderDelay ?? 50);
+      }
+      schedule(from, to, latency, signal, deliver);
+    }
+    return true;
+  }
+
+  return {
+    wrap(transport: Transport): Transport {
+      return {
+        ...transport,
+        async listen(endpoint, app) {
+          const server = await transport.listen(endpoint, app);
+          server.on("close", () => drop(endpoint.nodeId));
+          return server;
+        },
+        async send(to, message, signal) {
+          const sent = transmit(message.sender, to, signal, () =>
+            transport.send(to, message, signal)
+          );
+          if (!sent) throw new Error(`Message to node ${to} lost`);
+          return true; // on the wire, whether the peer takes it is not known
+        },
+        // a lost entry still reaches the node through the others relaying it
+        async forward(to, entry, signal) {
+          transmit(entry.origin, to, signal, () => transport.forward(to, entry, signal));
+        },
+      };
+    },
+
+    partition(name: string, groups: number[][]) {
+      conditions.partitions[name] = groups;
+      flush(); // replacing a partition can reconnect links the old one cut
+    },
+
+    heal(name?: string) {
+      if (name === undefined) conditions.partitions = {};
+      else delete conditions.partitions[name];
+      flush();
+    },
+
+    setLink(from: number, to: number, link: LinkConditions) {
+      conditions.links[`${from}->${to}`] = link;
+    },
+
+    setDefault(link: LinkConditions) {
+      conditions.default = link;
+    },
+
+    conditions: (): NetworkConditions => conditions,
+    held: () => held.length,
+  };
+}
@@ -0,0 +1,4 @@
+export { createNetworkConditions } from "./conditions";
+export type { NetworkConditionsOptions, NetworkController } from "./conditions";
+export { networkRoutes } from "./routes";
+export type { LatencyDistribution, LinkConditions, NetworkConditions } from "./types";
@@ -0,0 +1,44 @@
+import express from "express";
+import { NetworkController } from "./conditions";
+
+// admin routes changing the network conditions at runtime
+export function networkRoutes(network: NetworkController) {
+  const router = express.Router();
+  router.use(express.json());
+
+  // current conditions and number of messages held back by partitions
+  router.get("/network/conditions", (req, res) => {
+    res.status(200).json({ ...network.conditions(), held: network.held() });
+  });
+
+  // body: { name: string, groups: number[][] }
+  router.post("/network/partition", (req, res) => {
+    const { name, groups } = req.body ?? {};
+    const valid =
+      typeof name === "string" &&
+      Array.isArray(groups) &&
+      groups.every(
+        (group: unknown) =>
+          Array.isArray(group) && group.every((el) => Number.isInteger(el))
+      );
+    if (!valid) {
+      res.status(400).send("Expected { name: string, groups: number[][] }");
+      return;
+    }
+
+    network.partition(name, groups);
+    res.status(200).json(network.conditions().partitions);
+  });
+
+  router.delete("/network/partition/:name", (req, res) => {
+    network.heal(req.params.name);
+    res.status(200).json(network.conditions().partitions);
+  });
+
+  router.post("/network/heal", (req, res) => {
+    network.heal();
+    res.status(200).json(network.conditions().partitions);
+  });
+
+  return router;
+}
@@ -0,0 +1,21 @@
+export type LatencyDistribution =
+  | { type: "fixed"; ms: number }
+  | { type: "uniform"; min: number; max: number }
+  | { type: "exponential"; mean: number };
+
+// how a link between two nodes misbehaves
+export type LinkConditions = {
+  latency?: LatencyDistribution;
+  dropRate?: number; // probability that a message is lost
+  duplicateRate?: number; // probability that a message is delivered twice
+  reorderRate?: number; // probability that a message is held back so later ones overtake it
+  reorderDelay?: number; // how long a reordered message is held back at most, 50ms by default
+};
+
+export type NetworkConditions = {
+  default?: LinkConditions; // every link without its own conditions
+  links?: Record<string, LinkConditions>; // by "from->to", e.g. "0->3"
+  // named partitions, each a list of groups of node ids: a link is cut while
+  // its two ends are listed in different groups of an active partition
+  partitions?: Record<string, number[][]>;
+};
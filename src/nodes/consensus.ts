@@ -1,15 +1,31 @@
-import { BASE_NODE_PORT } from "../config";
+import { createHttpTransport, Transport } from "../transport";
+import { BinaryValue, Value } from "../types";
 
-export async function startConsensus(N: number) {
-  // launch a node
-  for (let index = 0; index < N; index++) {
-    await fetch(`http://localhost:${BASE_NODE_PORT + index}/start`);
-  }
+export async function startConsensus(
+  N: number,
+  transport: Transport = createHttpTransport()
+) {
+  // every node is asked at once, none waits for the others to be started
+  await Promise.all(Array.from({ length: N }, (_, index) => transport.start(index)));
 }
 
-export async function stopConsensus(N: number) {
+export async function stopConsensus(
+  N: number,
+  transport: Transport = createHttpTransport()
+) {
   // launch a node
   for (let index = 0; index < N; index++) {
-    await fetch(`http://localhost:${BASE_NODE_PORT + index}/stop`);
+    await transport.stop(index);
   }
 }
+
+// starts a new consensus instance on every node, with one initial value per node
+export async function startInstance<V = BinaryValue>(
+  instanceId: string,
+  initialValues: Value<V>[],
+  transport: Transport = createHttpTransport()
+) {
+  await Promise.all(
+    initialValues.map((value, index) => transport.start(index, instanceId, value))
+  );
+}
@@ -1,16 +1,92 @@
-import { Value } from "../types";
+import { createJoiningKeys, createNetworkKeys, NodeKeys } from "../auth";
+import { CoinSource, createCommonCoin } from "../coins";
+import { NetworkConfig, NetworkConfigInput, resolveConfig, validateConfig } from "../config";
+import { FaultStrategy, faultModelOf } from "../faults";
+import { NetworkController } from "../network";
+import { realClock, Simulation } from "../simulation";
+import { createFileStore, createStoreDir } from "../storage";
+import { TraceRecorder } from "../trace";
+import { createHttpTransport, Transport } from "../transport";
+import { BinaryValue, Value } from "../types";
+import { isBinaryValue } from "../utils";
 import { node } from "./node";
 
-export async function launchNodes(
+export type LaunchOptions = {
+  transport?: Transport; // how nodes reach each other, HTTP on config.basePort + i by default
+  simulation?: Simulation; // runs the nodes on the simulation's virtual clock, seeded coins and transport
+  // coin flipped when no value was proposed. By default a common coin seeded with
+  // the simulation's seed, or 0, so that joining nodes flip alike too: with
+  // coins of their own, N - F correct nodes rarely all land on the same value
+  // once their inputs are split and F is close to N/2
+  coin?: CoinSource;
+  faults?: Record<number, FaultStrategy>; // behaviour of faulty nodes by index, faulty nodes without one crash silently
+  trace?: TraceRecorder; // collects the events of every node, exported with trace.toJsonl()
+  multiValued?: boolean; // agree on any JSON value, by default as soon as an initial value is not 0 or 1
+  network?: NetworkController; // latency, losses and partitions applied to every message between nodes
+  // keeps a write-ahead log of every node in this directory, or a fresh temp
+  // directory when true, so that stopped nodes can be restarted
+  durable?: string | boolean;
+  // timing of the nodes and checks of F against N, defaults overridden by the
+  // BENOR_* environment variables otherwise. Launches given faults take the
+  // fault model of their strategies unless the config sets one, null included
+  config?: NetworkConfigInput;
+};
+
+// the config with the fault model the strategies call for, when it sets none
+function withFaultModel(options: LaunchOptions): NetworkConfigInput {
+  const input = options.config ?? {};
+  if (input.faultModel !== undefined || options.faults === undefined) return input;
+  return { ...input, faultModel: faultModelOf(Object.values(options.faults)) };
+}
+
+// what every node of a launch runs on
+function runtimeOptions(options: LaunchOptions, multiValued: boolean, config: NetworkConfig) {
+  const { simulation } = options;
+  const runtime = simulation
+    ? { transport: simulation.transport, clock: simulation.clock, random: simulation.random }
+    : {
+        transport: options.transport ?? createHttpTransport(config.basePort),
+        clock: realClock,
+        random: Math.random,
+      };
+  if (options.network) runtime.transport = options.network.wrap(runtime.transport);
+
+  return {
+    ...runtime,
+    coin: options.coin ?? createCommonCoin(simulation?.seed ?? 0),
+    multiValued,
+    config: config.node,
+    faultModel: config.faultModel,
+    ...(options.trace ? { onEvent: options.trace.record } : {}),
+  };
+}
+
+export async function launchNodes<V = BinaryValue>(
   N: number, // total number of nodes in the network
   F: number, // number of faulty nodes in the network
-  initialValues: Value[], // initial values of each node
-  faultyList: boolean[] // list of faulty values for each node, true if the node is faulty, false otherwise
+  initialValues: Value<V>[], // initial values of each node
+  faultyList: boolean[], // list of faulty values for each node, true if the node is faulty, false otherwise
+  options: LaunchOptions = {}
 ) {
   if (initialValues.length !== faultyList.length || N !== initialValues.length)
     throw new Error("Arrays don't match");
   if (faultyList.filter((el) => el === true).length !== F)
     throw new Error("faultyList doesnt have F faulties");
+  if (Object.keys(options.faults ?? {}).some((index) => !faultyList[Number(index)]))
+    throw new Error("Fault strategies can only be given to faulty nodes");
+  const config = resolveConfig(withFaultModel(options));
+  validateConfig(config, N, F);
+
+  const { simulation } = options;
+  const nodeOptions = runtimeOptions(
+    options,
+    options.multiValued ??
+      initialValues.some((value) => value !== "?" && !isBinaryValue(value)),
+    config
+  );
+
+  const keys = createNetworkKeys(N, simulation?.seed);
+  const storeDir = options.durable === true ? createStoreDir() : options.durable || undefined;
 
   const promises = [];
 
@@ -26,6 +102,8 @@ export async function launchNodes(
 
   // launch nodes
   for (let index = 0; index < N; index++) {
+    const fault = options.faults?.[index];
+    const store = storeDir ? createFileStore(storeDir, index) : undefined;
     const newPromise = node(
       index,
       N,
@@ -33,7 +111,13 @@ export async function launchNodes(
       initialValues[index],
       faultyList[index],
       nodesAreReady,
-      setNodeIsReady
+      setNodeIsReady,
+      {
+        ...nodeOptions,
+        keys: keys[index],
+        ...(fault ? { fault } : {}),
+        ...(store ? { store } : {}),
+      }
     );
     promises.push(newPromise);
   }
@@ -42,3 +126,37 @@ export async function launchNodes(
 
   return servers;
 }
+
+// launches a node that joins a running network through one of its members.
+// N and F are the ones the network was launched with, the node is only a
+// member once the change is committed to the replicated log
+export async function launchJoiningNode(
+  nodeId: number,
+  N: number,
+  F: number,
+  sponsor: number,
+  options: LaunchOptions & { address?: string } = {}
+) {
+  const keys =
+    options.simulation === undefined
+      ? createJoiningKeys(nodeId)
+      : (createNetworkKeys(nodeId + 1, options.simulation.seed)[nodeId] as NodeKeys);
+  const storeDir = options.durable === true ? createStoreDir() : options.durable || undefined;
+  const store = storeDir ? createFileStore(storeDir, nodeId) : undefined;
+
+  return node(
+    nodeId,
+    N,
+    F,
+    "?",
+    false,
+    () => true,
+    () => {},
+    {
+      ...runtimeOptions(options, options.multiValued ?? false, resolveConfig(options.config)),
+      keys,
+      join: { sponsor, ...(options.address !== undefined ? { address: options.address } : {}) },
+      ...(store ? { store } : {}),
+    }
+  );
+}
@@ -0,0 +1,78 @@
+import * as http from "http";
+import { resolveConfig } from "../config";
+import { createHttpTransport, Transport } from "../transport";
+import { delay } from "../utils";
+import { startConsensus } from "./consensus";
+import { LaunchOptions } from "./launchNodes";
+import { getNetworkSummary, NetworkSummary } from "./observer";
+
+export type AwaitDecisionOptions = {
+  timeout?: number; // ms, virtual ones for simulated networks, 10000 by default
+};
+
+// the servers of the nodes, as launchNodes returns them, with what drives the
+// network through its lifecycle
+export type Network = http.Server[] & {
+  N: number;
+  transport: Transport; // the one the nodes were launched on
+  start: () => Promise<void>; // starts every node's default instance
+  // resolves with the summary once every correct node decided or was stopped,
+  // rejects when the timeout runs out first
+  awaitDecision: (options?: AwaitDecisionOptions) => Promise<NetworkSummary<unknown>>;
+  stopNode: (nodeId: number) => Promise<void>;
+  // stops every node, aborting their requests to peers, and closes their servers
+  close: () => Promise<void>;
+};
+
+function closeServer(server: http.Server) {
+  return new Promise<void>((resolve) => {
+    server.closeAllConnections();
+    // servers of in-memory nodes were never bound, closing them only stops the nodes
+    server.close(() => resolve());
+  });
+}
+
+export function createNetwork(
+  N: number,
+  servers: http.Server[],
+  options: LaunchOptions = {}
+): Network {
+  const { simulation } = options;
+  const config = resolveConfig(options.config);
+  const transport =
+    simulation?.transport ?? options.transport ?? createHttpTransport(config.basePort);
+  let closed: Promise<void> | null = null;
+
+  async function awaitDecision({ timeout = 10000 }: AwaitDecisionOptions = {}) {
+    const summary = () =>
+      getNetworkSummary(N, { transport }) as Promise<NetworkSummary<unknown>>;
+
+    // a simulated network runs until nothing is left to do or the time is up
+    if (simulation) {
+      await simulation.run({ maxTime: simulation.clock.now() + timeout });
+      const result = await summary();
+      if (!result.finality) throw new Error(`No decision within ${timeout} virtual ms`);
+      return result;
+    }
+
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const result = await summary();
+      if (result.finality) return result;
+      if (Date.now() >= deadline) throw new Error(`No decision within ${timeout} ms`);
+      await delay(config.node.readinessPoll);
+    }
+  }
+
+  return Object.assign(servers, {
+    N,
+    transport,
+    start: () => startConsensus(N, transport),
+    awaitDecision,
+    stopNode: (nodeId: number) => transport.stop(nodeId),
+    close() {
+      closed ??= Promise.all(servers.map(closeServer)).then(() => {});
+      return closed;
+    },
+  });
+}
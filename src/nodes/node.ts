@@ -1,232 +1,1193 @@
+import { createPublicKey } from "crypto";
 import bodyParser from "body-parser";
 import express from "express";
-import { BASE_NODE_PORT } from "../config";
-import { Value } from "../types";
+import { exportPublicKey, importPublicKey, NodeKeys, signMessage, verifyMessage } from "../auth";
+import { CoinSource } from "../coins";
+import { DEFAULT_INSTANCE, FaultModel, NodeConfig } from "../config";
+import { FaultSpec, faultFromSpec, FaultStrategy, OutgoingMessage } from "../faults";
+import {
+  applyChange,
+  Configuration,
+  initialConfiguration,
+  isMembershipChange,
+  MembershipChange,
+  MembershipSnapshot,
+} from "../membership";
+import { createNodeMetrics, messageType, PROMETHEUS_CONTENT_TYPE, toPrometheus } from "../metrics";
+import {
+  PROTOCOL_VERSION,
+  ProtocolError,
+  Validation,
+  validateFaultRequest,
+  validateLogEntry,
+  validateMembershipRequest,
+  validateMessage,
+  validateResendRequest,
+  validateStartRequest,
+  validateStateQuery,
+  validateSubmitRequest,
+} from "../protocol";
+import { createReplicatedLog } from "../replication";
+import { Clock, Random } from "../simulation";
+import { DurableStore, WalRecord } from "../storage";
+import { createEventLog, TraceEvent, toJsonl } from "../trace";
+import { Transport } from "../transport";
+import {
+  BinaryValue,
+  LogEntry,
+  Message,
+  Phase,
+  RejectionCounts,
+  Value,
+} from "../types";
+import { valueKey } from "../utils";
 
 
 // structure of state of node in consensus algorithm
 type NodeState = {
   killed: boolean; //  if the node is stopped
-  x: 0 | 1 | "?" | null; // current decision value
+  x: unknown; // current decision value, any JSON value in multi-valued consensus
   decided: boolean | null; // final decision or not
   k: number | null; // current round number
+  rejected?: RejectionCounts; // messages refused by the node
+};
+
+// one run of Ben-Or, a node hosts as many as it is asked to
+type Instance = {
+  id: string;
+  state: NodeState;
+  multiValued: boolean; // agrees on any value through binary instances, set when started
+  unbounded: boolean; // runs until decided whatever config.maxRounds, for the log's slots
+  running: boolean; // track if the consensus loop has been started
+  done: Promise<void> | null; // settles when the consensus loop ends
+  ended: boolean; // the consensus loop returned, decided or not
+  incarnation: number; // loops of instances from before a restart stop on their own
+  startedAt: number; // clock time the consensus loop was launched, for the decision latency
+  configuration: Configuration; // members and F the instance runs with, set when started
+  // received messages, indexed by phase then round then sender
+  received: Record<Phase, Map<number, Map<number, unknown>>>;
+  sent: Map<string, unknown>; // value sent for each "phase:round", never changed once sent
+};
+
+// what the node runs on, so that it can be simulated deterministically
+export type NodeOptions = {
+  transport: Transport;
+  clock: Clock;
+  random: Random;
+  coin: CoinSource;
+  keys: NodeKeys; // signs outgoing messages and checks incoming ones
+  multiValued: boolean; // instances agree on any JSON value instead of 0 or 1
+  config: NodeConfig; // rounds, timeouts, retries and polling intervals
+  faultModel: FaultModel | null; // byzantine takes the thresholds tolerating lying nodes
+  fault?: FaultStrategy; // only for faulty nodes
+  store?: DurableStore; // write-ahead log the node can be restarted from
+  // joins a running network through one of its members instead of being part
+  // of the initial configuration, reachable at address for explicit-peer transports
+  join?: { sponsor: number; address?: string };
+  onEvent?: (event: TraceEvent) => void; // sees every event the node records
 };
 
 // function that creates and manages a node in a consensus protocol.
-export async function node(
+export async function node<V = BinaryValue>(
   nodeId: number,
   N: number,
   F: number,
-  initialValue: Value,
+  initialValue: Value<V>,
   isFaulty: boolean,
   nodesAreReady: () => boolean,
-  setNodeIsReady: (index: number) => void
+  setNodeIsReady: (index: number) => void,
+  options: NodeOptions
 ) {
+  const { transport, clock, random, coin, keys, multiValued, config } = options;
+  const listeners = new Set<(event: TraceEvent) => void>(); // the /events streams
+  const log = createEventLog(
+    nodeId,
+    clock.now,
+    (event) => {
+      options.onEvent?.(event);
+      listeners.forEach((listener) => listener(event));
+    },
+    config.traceLimit
+  );
+
+  // faulty nodes without a strategy crash: they take no part in the protocol,
+  // the others follow their strategy, both look faulty from the outside
+  const silent = isFaulty && options.fault === undefined;
+  let fault = options.fault;
+  let faulty = isFaulty; // a fault can be injected into a correct node at runtime
+
   const node = express();
   node.use(express.json());
   node.use(bodyParser.json());
 
   let killed = false; // track if the node is stopped
+  // agreed through the replicated log, the initial one for the launched nodes
+  let configuration = initialConfiguration(N, F, options.faultModel);
+  // nodes that left, their ids and keys are not given to anyone else
+  const departed = new Set<number>();
+  let incarnation = 0; // bumped on every restart
 
+  const metrics = createNodeMetrics();
+  const inFlight = new Set<AbortController>(); // requests to peers, aborted when the node closes
+  // peers that refused a message as stopped or faulty, nothing is sent to them
+  // until they are heard from again, a restarted one asks for a resend
+  const unavailable = new Set<number>();
 
-  // initialization of node state
-  let nodeState: NodeState = {
-    killed: false,
-    x: isFaulty ? null : (initialValue as 0 | 1 | "?" | null),
-    decided: isFaulty ? null : false,
-    k: isFaulty ? null : 0,
+  const rejected: RejectionCounts = {
+    badSignature: 0,
+    unknownSender: 0,
+    duplicate: 0,
+    malformed: 0,
+    version: 0,
   };
 
+  const instances = new Map<string, Instance>();
+
+  // instances are created when started or when a peer's first message arrives
+  function getInstance(id: string, initialValue: unknown = null): Instance {
+    let instance = instances.get(id);
+    if (instance === undefined) {
+      instance = {
+        id,
+        // initialization of node state
+        state: {
+          killed: false,
+          x: silent ? null : initialValue,
+          decided: silent ? null : false,
+          k: silent ? null : 0,
+        },
+        multiValued,
+        unbounded: false,
+        running: false,
+        done: null,
+        ended: false,
+        incarnation,
+        startedAt: 0,
+        configuration,
+        received: { 1: new Map(), 2: new Map() },
+        sent: new Map(),
+      };
+      instances.set(id, instance);
+    }
+    return instance;
+  }
+
+  // the instance the node was launched for, driven by /start and /getState
+  getInstance(DEFAULT_INSTANCE, initialValue);
+
 
   // check status of node
   node.get("/status", (req, res) => {
-    res.status(isFaulty ? 500 : 200).send(isFaulty ? "faulty" : "live");
+    res.status(faulty ? 500 : 200).send(faulty ? "faulty" : "live");
+  });
+
+
+  // start consensus process, answered at once: the progress is followed
+  // through /events or /getState?waitFor=decided
+  node.get("/start", (req, res) => {
+    const launched = begin();
+    if (launched === null) {
+      res.status(500).send("Node is faulty or stopped");
+      return;
+    }
+
+    reportFailure(DEFAULT_INSTANCE, launched);
+    res.status(202).send("Consensus starting");
   });
 
+  // start a consensus instance with the initial value given in the body
+  node.post("/instances/:id/start", (req, res) => {
+    const request = validated(validateStartRequest(req.body, multiValued), res);
+    if (request === null) return;
 
-  // start consensus process
-  node.get("/start", async (req, res) => {
-    if (killed || isFaulty) {
+    const launched = begin(req.params.id, request.initialValue);
+    if (launched === null) {
       res.status(500).send("Node is faulty or stopped");
       return;
     }
 
+    reportFailure(req.params.id, launched);
+    res.status(202).send("Consensus starting");
+  });
+
+  // the start was answered before it could fail, e.g. on the write-ahead log:
+  // the failure goes to the trace, and so to /events
+  function reportFailure(instanceId: string, launched: Promise<void>) {
+    launched.catch((error) => {
+      console.error(`Node ${nodeId} failed to start instance ${instanceId}`, error);
+      log.record("start-failed", instanceId, null, null, { error: String(error) });
+    });
+  }
+
+  // starts the consensus loop of an instance in the background, false if the
+  // node is faulty or stopped
+  async function start(
+    instanceId: string = DEFAULT_INSTANCE,
+    value?: unknown,
+    multi: boolean = multiValued
+  ) {
+    const launched = begin(instanceId, value, multi);
+    if (launched === null) return false;
+    await launched;
+    return true;
+  }
+
+  // null if the node can't start the instance, otherwise settles once the
+  // loop was launched
+  function begin(
+    instanceId: string = DEFAULT_INSTANCE,
+    value?: unknown,
+    multi: boolean = multiValued
+  ) {
+    if (killed || silent || !isMember()) return null;
+
+    const instance = getInstance(instanceId);
+    if (!instance.running) {
+      if (value !== undefined) instance.state.x = value;
+      instance.multiValued = multi;
+    }
+    if (instance.state.x === null) return null; // never given an initial value
+
+    return launchWhenReady(instance);
+  }
+
+  async function launchWhenReady(instance: Instance) {
     // wait until all nodes are ready before proceeding
     while (!nodesAreReady()) {
-      await new Promise((resolve) => setTimeout(resolve, 50));
+      await clock.sleep(config.readinessPoll);
+    }
+
+    // the loop runs in the background so every node can be started before
+    // the first one starts waiting on its peers
+    if (!instance.running) {
+      persist({
+        type: "start",
+        instance: instance.id,
+        initialValue: instance.state.x,
+        multiValued: instance.multiValued,
+        unbounded: instance.unbounded,
+      });
+      launch(instance);
+    }
+  }
+
+  function launch(instance: Instance) {
+    instance.running = true;
+    instance.startedAt = clock.now();
+    instance.configuration = configuration;
+    const run = instance.multiValued ? runMultiValued : runConsensus;
+    instance.done = run(instance)
+      .catch((error) => {
+        console.error(`Node ${nodeId} consensus loop failed`, error);
+      })
+      .then(() => {
+        instance.ended = true;
+      });
+  }
+
+  function isMember() {
+    return configuration.members.includes(nodeId);
+  }
+
+  // false once the node is stopped or the instance predates a restart
+  function isActive(instance: Instance) {
+    return !killed && instance.incarnation === incarnation;
+  }
+
+  function persist(record: WalRecord) {
+    options.store?.append(record);
+  }
+
+  // runs an instance to its end, with the decided value or null. Unbounded
+  // instances only end undecided when the node stops or restarts
+  async function agree(instanceId: string, value: BinaryValue, unbounded = false) {
+    if (killed || silent) return null;
+    const instance = getInstance(instanceId);
+    if (!instance.running) instance.unbounded = unbounded;
+    if (!(await start(instanceId, value, false))) return null;
+
+    await instance.done;
+    return instance.state.decided ? (instance.state.x as BinaryValue) : null;
+  }
+
+  // reduction to binary agreement: the nodes exchange their values (round 0,
+  // phase 1) then echo the value held by a strict majority (round 0, phase 2).
+  // At most one value can be echoed, a binary instance decides whether to take it
+  async function runMultiValued(instance: Instance) {
+    const nodeState = instance.state;
+
+    await broadcastMessage(instance, 1, 0, nodeState.x);
+    const values = await gatherMessages(instance, 1, 0);
+    if (values === null) return;
+
+    await broadcastMessage(instance, 2, 0, getMajorityVote(instance, values));
+    const echoes = await gatherMessages(instance, 2, 0);
+    if (echoes === null) return;
+
+    // for 1, enough matching echoes that every correct node finds the value
+    // again among its own, a faulty node alone can't make a candidate
+    const { decide } = thresholds(instance.configuration);
+    const candidate = tally(echoes).some(({ count }) => count > decide) ? 1 : 0;
+    const decided = await agree(`${instance.id}/binary`, candidate);
+    nodeState.k = getInstance(`${instance.id}/binary`).state.k;
+    if (decided === null) return;
+
+    if (decided === 1) {
+      // the echoes of correct nodes reach us eventually, the instance ends
+      // undecided if they don't within config.echoTimeout
+      const since = clock.now();
+      let echoed = findEcho(instance);
+      while (echoed === undefined) {
+        if (!isActive(instance) || clock.now() - since > config.echoTimeout) return;
+        await clock.sleep(config.messagePoll);
+        echoed = findEcho(instance);
+      }
+      nodeState.x = echoed.value;
+    } else {
+      nodeState.x = "?";
     }
+    nodeState.decided = true;
+    persist({ type: "decision", instance: instance.id, round: nodeState.k, value: nodeState.x });
+    log.record("decision", instance.id, nodeState.k, 2, { value: nodeState.x });
+    observeDecision(instance);
+  }
+
+  function observeDecision(instance: Instance) {
+    metrics.roundsToDecision.observe({}, instance.state.k ?? 0);
+    metrics.decisionLatency.observe({}, clock.now() - instance.startedAt);
+  }
 
-    let round = 0;
-    const maxRounds = 20; // limitatino of the number of rounds so we don't have infinite loops
+  // the value F + 1 nodes echoed, at least one of them correct
+  function findEcho(instance: Instance) {
+    const echoes = Array.from(instance.received[2].get(0)?.values() ?? []);
+    return tally(echoes).find(({ count }) => count > instance.configuration.F);
+  }
+
+  // runs Ben-Or rounds until the node decides, is stopped or hits the round
+  // cap, if the configuration sets one
+  async function runConsensus(instance: Instance) {
+    const maxRounds = instance.unbounded ? null : config.maxRounds;
+    const nodeState = instance.state;
+    const { decide, adopt } = thresholds(instance.configuration);
+    // a restarted node resumes the round it was in
+    let round = Math.max((nodeState.k ?? 0) - 1, 0);
+
+    while (
+      !nodeState.decided &&
+      isActive(instance) &&
+      (maxRounds === null || round < maxRounds)
+    ) {
+      round++;
+      nodeState.k = round;
+      metrics.round.set({ instance: instance.id }, round);
+      persist({ type: "round", instance: instance.id, round, estimate: nodeState.x });
+      log.record("round-start", instance.id, round, null, { estimate: nodeState.x });
+
+      // phase 1: report the current estimate and wait for N - F reports
+      await broadcastMessage(instance, 1, round, nodeState.x);
+      const reports = await gatherMessages(instance, 1, round);
+      if (reports === null) return;
+      recordTally(instance, 1, round, reports);
 
-    while (!nodeState.decided && round < maxRounds) {
-      await new Promise((resolve) => setTimeout(resolve, 100));
+      // propose v only if a strict majority of all nodes reported it
+      const proposal = getMajorityVote(instance, reports);
 
-      const votes = await gatherVotes(round); // get votes from other nodes in the current round
-      const majorityVote = getMajorityVote(votes); // determination of the majority round
+      // phase 2: propose and wait for N - F proposals
+      await broadcastMessage(instance, 2, round, proposal);
+      const proposals = await gatherMessages(instance, 2, round);
+      if (proposals === null) return;
+      recordTally(instance, 2, round, proposals);
 
-      if (majorityVote !== null) {
-        // if majority vote is obtained, update the state of node
-        nodeState.x = majorityVote as 0 | 1;
+      const count0 = proposals.filter((v) => v === 0).length;
+      const count1 = proposals.filter((v) => v === 1).length;
+
+      if (count0 > decide || count1 > decide) {
+        // enough matching proposals that some correct node proposed the value,
+        // so every correct node has seen it too and adopts it next round
+        nodeState.x = count1 > decide ? 1 : 0;
         nodeState.decided = true;
-        await broadcastMessage(round, nodeState.x);
-        break; // exit after reaching consensus
+        persist({ type: "decision", instance: instance.id, round, value: nodeState.x });
+        log.record("decision", instance.id, round, 2, { value: nodeState.x });
+        observeDecision(instance);
+
+        // help the others finish: they need our messages for the next round
+        await broadcastMessage(instance, 1, round + 1, nodeState.x);
+        await broadcastMessage(instance, 2, round + 1, nodeState.x);
+      } else if (count0 >= adopt || count1 >= adopt) {
+        nodeState.x = count1 >= adopt ? 1 : 0;
       } else {
-        // no majority, pick a random value
-        nodeState.x = Math.random() < 0.5 ? 0 : 1;
+        // no proposal for either value, flip a coin
+        nodeState.x = coin.flip(nodeId, round);
+        metrics.coinFlips.inc({ value: String(nodeState.x) });
+        log.record("coin-flip", instance.id, round, 2, {
+          value: nodeState.x,
+          coin: coin.name,
+        });
       }
-      
-      //update of round number
-      nodeState.k = round;
-      round++;
     }
+  }
 
-    res.status(200).send("Consensus reached");
-  });
-
-  //sending the decision of a node to all of the other nodes
-  async function broadcastMessage(round: number, value: 0 | 1) {
-    if (isFaulty) return; // Faulty nodes do not participate
-
-    for (let i = 0; i < N; i++) {
-      if (i !== nodeId) {
-        let attempts = 0;
-        let success = false;
-
-        // retry sending the message up to three times if it is necessary
-        while (attempts < 3 && !success) {
-          try {
-            await fetch(`http://localhost:${BASE_NODE_PORT + i}/message`, {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ round, value }),
-            });
-            success = true; // the message has been send successfully
-          } catch (error) {
-            attempts++;
-            console.error(`Failed to send message to node ${i}, attempt ${attempts}`);
-            await new Promise((resolve) => setTimeout(resolve, 100));
-          }
-        }
-      }
+  //sending a phase message of a node to all of the nodes, itself included
+  async function broadcastMessage(
+    instance: Instance,
+    phase: Phase,
+    round: number,
+    proposed: unknown
+  ) {
+    if (silent) return; // crashed nodes do not participate
+
+    // a message is written ahead of being sent, and sent again with the same
+    // value after a restart so the node never contradicts itself
+    const key = `${phase}:${round}`;
+    if (!instance.sent.has(key)) {
+      persist({ type: "sent", instance: instance.id, phase, round, value: proposed });
+      instance.sent.set(key, proposed);
     }
+    const value = instance.sent.get(key);
+
+    const message: Message<unknown> = {
+      version: PROTOCOL_VERSION,
+      instance: instance.id,
+      phase,
+      round,
+      sender: nodeId,
+      value,
+      timestamp: log.timestamp(),
+    };
+
+    const { members } = instance.configuration;
+    await Promise.all(
+      members.map(async (i) => {
+        if (i === nodeId) {
+          const event = log.record("message-sent", instance.id, round, phase, {
+            to: i,
+            value,
+          });
+          metrics.sent.inc({ type: messageType(phase) });
+          receiveMessage({ ...message, timestamp: event.timestamp });
+          return;
+        }
+        if (unavailable.has(i)) return;
+
+        // a Byzantine node decides what each peer really gets
+        const outgoing: OutgoingMessage[] = fault
+          ? fault.intercept(message, i, {
+              nodeId,
+              N: members.length,
+              random,
+              estimate: instance.state.x,
+              received: (phase, round) =>
+                Array.from(instance.received[phase].get(round)?.values() ?? []),
+            })
+          : [{ message }];
+
+        await Promise.all(
+          outgoing.map(async (el) => {
+            if (el.delay) await clock.sleep(el.delay);
+            await sendMessage(i, el.message);
+          })
+        );
+      })
+    );
   }
 
-  // collection of votes from other notes in a given round.
-  async function gatherVotes(round: number): Promise<number[]> {
-    if (isFaulty) return []; // the faulty nodes do not participate
+  async function sendMessage(to: number, original: Message<unknown>) {
+    const event = log.record(
+      "message-sent",
+      original.instance,
+      original.round,
+      original.phase,
+      { to, value: original.value }
+    );
+    const message = signMessage({ ...original, timestamp: event.timestamp }, keys.privateKey);
 
-    const votes: number[] = [];
+    let attempts = 0;
+    let success = false;
 
-    for (let i = 0; i < N; i++) {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 500); // timeout to prevent long waits
+    // retry sending the message up to config.sendAttempts times if it is necessary
+    while (attempts < config.sendAttempts && !success && !killed) {
+      const request = startRequest();
 
       try {
-        const response = await fetch(`http://localhost:${BASE_NODE_PORT + i}/getState`, {
-          signal: controller.signal,
-        });
-        clearTimeout(timeout);
-
-        const data: unknown = await response.json();
-        if (isValidNodeState(data)) {
-          const nodeState = data as NodeState;
-          if (nodeState.x === 0 || nodeState.x === 1) {
-            votes.push(nodeState.x); //ad valid votes to the list
-          }
+        if (await transport.send(to, message, request.signal)) {
+          metrics.sent.inc({ type: messageType(message.phase) });
         } else {
-          console.warn(`Invalid response from node ${i}:`, data);
+          unavailable.add(to);
         }
-      } catch (error: unknown) {
-        clearTimeout(timeout);
-        console.warn(`Node ${i} unresponsive for round ${round}`);
+        success = true; // the message has been send successfully
+      } catch (error) {
+        if (killed) return; // stopped meanwhile, or aborted by close
+        attempts++;
+        console.error(`Failed to send message to node ${to}, attempt ${attempts}`);
+        if (attempts < config.sendAttempts) metrics.retries.inc();
+        await clock.sleep(config.retryBackoff);
+      } finally {
+        request.done();
+      }
+    }
+    if (attempts === config.sendAttempts) metrics.failures.inc();
+  }
+
+  // signal of a request to a peer, aborted after config.sendTimeout to prevent
+  // long waits or as soon as the node closes. done() once the request settled
+  function startRequest() {
+    const controller = new AbortController();
+    inFlight.add(controller);
+    const cancelTimeout = clock.setTimeout(() => controller.abort(), config.sendTimeout);
+
+    return {
+      signal: controller.signal,
+      done: () => {
+        cancelTimeout();
+        inFlight.delete(controller);
+      },
+    };
+  }
+
+  // checks the shape of a message from the network and who sent it before
+  // storing it, the protocol error if it does not validate
+  function acceptMessage(data: unknown): ProtocolError | null {
+    const validation = validateMessage(data, multiValued);
+    if (!validation.ok) {
+      rejectMalformed(validation.error);
+      return validation.error;
+    }
+
+    const message = validation.value;
+    const publicKey = keys.registry.publicKey(message.sender);
+    if (publicKey === undefined) {
+      rejectMessage(message, "unknownSender");
+    } else if (!verifyMessage(message, publicKey)) {
+      rejectMessage(message, "badSignature");
+    } else {
+      unavailable.delete(message.sender);
+      if (!receiveMessage(message)) rejectMessage(message, "duplicate");
+    }
+    return null;
+  }
+
+  function rejectMessage(message: Message<unknown>, reason: keyof RejectionCounts) {
+    rejected[reason]++;
+    metrics.rejected.inc({ reason });
+    log.record("message-rejected", message.instance, message.round, message.phase, {
+      from: message.sender,
+      reason,
+    });
+  }
+
+  // nothing of a message that does not validate can be trusted, not even its instance
+  function rejectMalformed(error: ProtocolError) {
+    rejected[error.code]++;
+    metrics.rejected.inc({ reason: error.code });
+    log.record("message-rejected", null, null, null, { reason: error.code, field: error.field });
+  }
+
+  // the validated value, or null once a 400 with the protocol error is sent
+  function validated<T>(validation: Validation<T>, res: express.Response): T | null {
+    if (validation.ok) return validation.value;
+    res.status(400).json(validation.error);
+    return null;
+  }
+
+  // stores a message, keeping only the first one of each sender for a given
+  // phase and round, false for the ones after it
+  function receiveMessage(message: Message<unknown>) {
+    log.witness(message.timestamp);
+    metrics.received.inc({ type: messageType(message.phase) });
+    log.record("message-received", message.instance, message.round, message.phase, {
+      from: message.sender,
+      value: message.value,
+    });
+
+    return storeMessage(message);
+  }
+
+  function storeMessage(
+    message: Pick<Message<unknown>, "instance" | "phase" | "round" | "sender" | "value">
+  ) {
+    const received = getInstance(message.instance).received;
+    let byRound = received[message.phase].get(message.round);
+    if (byRound === undefined) {
+      byRound = new Map();
+      received[message.phase].set(message.round, byRound);
+    }
+    if (byRound.has(message.sender)) return false;
+
+    byRound.set(message.sender, message.value);
+    return true;
+  }
+
+  // waits for N - F messages of the instance's members for a given phase and
+  // round, null if the node was stopped meanwhile. A wait making no progress for
+  // config.gatherTimeout asks the members not heard from to send their messages
+  // again, in case the network lost them for good
+  async function gatherMessages(
+    instance: Instance,
+    phase: Phase,
+    round: number
+  ): Promise<unknown[] | null> {
+    const { members, F } = instance.configuration;
+    let since = clock.now();
+    let heard = 0;
+    let timedOut = false;
+    while (isActive(instance)) {
+      const byRound = Array.from(instance.received[phase].get(round) ?? []).filter(
+        ([sender]) => members.includes(sender)
+      );
+      if (byRound.length >= members.length - F) {
+        return byRound.map(([, value]) => value);
       }
+      if (byRound.length > heard) {
+        heard = byRound.length;
+        since = clock.now();
+      } else if (clock.now() - since > config.gatherTimeout) {
+        if (!timedOut) metrics.gatherTimeouts.inc({ type: messageType(phase) });
+        timedOut = true;
+        since = clock.now();
+        members
+          .filter((member) => member !== nodeId && !unavailable.has(member))
+          .filter((member) => !byRound.some(([sender]) => sender === member))
+          .forEach(requestResend);
+      }
+      await clock.sleep(config.messagePoll);
     }
 
-    return votes;
+    return null;
+  }
+
+  function recordTally(instance: Instance, phase: Phase, round: number, votes: unknown[]) {
+    log.record("vote-tally", instance.id, round, phase, {
+      count0: votes.filter((v) => v === 0).length,
+      count1: votes.filter((v) => v === 1).length,
+      countUnknown: votes.filter((v) => v === "?").length,
+    });
   }
 
-  // determines the majority vote from a list of votes
-  function getMajorityVote(votes: number[]): 0 | 1 | null {
-    if (votes.length === 0) return null; //  if there is no votes, no decision is made
+  // determines the value reported by a strict majority of the N members, "?" otherwise
+  function getMajorityVote(instance: Instance, votes: unknown[]): unknown {
+    const { propose } = thresholds(instance.configuration);
+    const majority = tally(votes).find(({ count }) => count > propose);
+
+    return majority ? majority.value : "?"; // "?" if there is no clear majority
+  }
 
-    const count0 = votes.filter((v) => v === 0).length;
-    const count1 = votes.filter((v) => v === 1).length;
-    const majorityThreshold = Math.floor(N / 2) + 1;
+  // how many times each value other than "?" comes up, values compared by content
+  function tally(votes: unknown[]) {
+    const counts = new Map<string, { value: unknown; count: number }>();
+    for (const vote of votes) {
+      if (vote === "?") continue;
+      const key = valueKey(vote);
+      const entry = counts.get(key) ?? { value: vote, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+    return Array.from(counts.values());
+  }
 
-    if (count0 >= majorityThreshold) return 0;
-    if (count1 >= majorityThreshold) return 1;
-    
-    return null; // if there is no clear majority
+  // matching messages each step of a round takes: more than `propose` reports
+  // for a proposal, more than `decide` proposals to decide and `adopt` to take
+  // the value. Byzantine nodes lie instead of only falling silent, so a decision
+  // needs enough proposals that every correct node sees F + 1 of them
+  function thresholds({ members, F }: Configuration) {
+    const N = members.length;
+    return options.faultModel === "byzantine"
+      ? { propose: (N + F) / 2, decide: (N + F) / 2, adopt: F + 1 }
+      : { propose: N / 2, decide: F, adopt: 1 };
   }
 
   //to handle message from another node
   node.post("/message", async (req, res) => {
-    if (killed || isFaulty) {
+    if (killed || silent) {
       res.status(500).send("Node is stopped or faulty");
       return;
     }
 
-    const { round, value } = req.body;
+    const error = acceptMessage(req.body);
+    if (error !== null) {
+      res.status(400).json(error);
+      return;
+    }
+
+    res.sendStatus(200);
+  });
 
-    setImmediate(() => {
-      if (nodeState.k === null || nodeState.k < round) {
-        nodeState.k = round;
-        nodeState.x = value;
+  // to stop the node
+  node.get("/stop", (req, res) => {
+    stop();
+    res.status(200).send("Node stopped");
+  });
 
+  // the loops see it at their next check and end
+  function stop() {
+    const running = !killed;
+    killed = true;
+    instances.forEach((instance) => {
+      instance.state.killed = true;
+    });
+    // recorded once stopped, the /events streams send the new state with it
+    if (running) log.record("stop", null, null, null);
+  }
 
-        if (value !== null) {
-          nodeState.decided = true; // decision if valide decision value is received
-        }
+  // a closed node must not go on sending from the background: the requests
+  // to peers are aborted at once instead of waiting for their timeout
+  function close() {
+    stop();
+    inFlight.forEach((controller) => controller.abort());
+    inFlight.clear();
+  }
+
+  // turns the node Byzantine with the given strategy, for demos and experiments
+  node.post("/fault", (req, res) => {
+    const spec = validated(validateFaultRequest(req.body), res);
+    if (spec === null) return;
+
+    if (!injectFault(spec)) {
+      res.status(500).send("Node is stopped or crashed");
+      return;
+    }
+    res.status(200).send("Fault injected");
+  });
+
+  function injectFault(spec: FaultSpec) {
+    if (killed || silent) return false;
+    try {
+      fault = faultFromSpec(spec);
+    } catch (error) {
+      return false;
+    }
+    faulty = true;
+    return true;
+  }
+
+  // bring a stopped node back from its write-ahead log
+  node.get("/restart", (req, res) => {
+    if (!restart()) {
+      res.status(500).send("Node is running, faulty or has no durable store");
+      return;
+    }
+    res.status(200).send("Node restarted");
+  });
+
+  // replays the write-ahead log into fresh instances, as after losing memory
+  function recover(records: WalRecord[]) {
+    incarnation++;
+    instances.clear();
+    getInstance(DEFAULT_INSTANCE, initialValue);
+    const started: Instance[] = [];
+
+    for (const record of records) {
+      const instance = getInstance(record.instance);
+      const state = instance.state;
+      switch (record.type) {
+        case "start":
+          state.x = record.initialValue;
+          instance.multiValued = record.multiValued;
+          instance.unbounded = record.unbounded;
+          started.push(instance);
+          break;
+        case "round":
+          state.k = record.round;
+          state.x = record.estimate;
+          break;
+        case "sent":
+          instance.sent.set(`${record.phase}:${record.round}`, record.value);
+          storeMessage({
+            instance: record.instance,
+            phase: record.phase,
+            round: record.round,
+            sender: nodeId,
+            value: record.value,
+          });
+          break;
+        case "decision":
+          state.x = record.value;
+          state.decided = true;
+          if (record.round !== null) state.k = record.round;
+          break;
       }
+    }
+
+    return started;
+  }
+
+  function restart() {
+    if (!killed || silent || options.store === undefined) return false;
+
+    const started = recover(options.store.records());
+    killed = false;
+    log.record("restart", null, null, null);
+
+    // what the peers sent while the node was down is lost, ask them again
+    configuration.members.forEach((member) => {
+      if (member !== nodeId) requestResend(member);
+    });
+    started.filter((instance) => !instance.state.decided).forEach(launch);
+    return true;
+  }
+
+  async function requestResend(to: number) {
+    const request = startRequest();
+
+    try {
+      await transport.resend(to, nodeId, request.signal);
+    } catch (error) {
+      if (!killed) console.error(`Failed to ask node ${to} to resend its messages`);
+    } finally {
+      request.done();
+    }
+  }
+
+  // sends a restarted or waiting peer every message of every instance again
+  function resend(to: number) {
+    if (killed || faulty) return false;
+    unavailable.delete(to);
+
+    instances.forEach((instance) => {
+      instance.sent.forEach((value, key) => {
+        const [phase, round] = key.split(":").map(Number) as [Phase, number];
+        sendMessage(to, {
+          version: PROTOCOL_VERSION,
+          instance: instance.id,
+          phase,
+          round,
+          sender: nodeId,
+          value,
+          timestamp: log.timestamp(),
+        });
+      });
     });
+    return true;
+  }
+
+  node.post("/resend", (req, res) => {
+    const request = validated(validateResendRequest(req.body), res);
+    if (request === null) return;
 
+    if (!resend(request.from)) {
+      res.status(500).send("Node is stopped or faulty");
+      return;
+    }
     res.sendStatus(200);
   });
 
-  // to stop the node
-  node.get("/stop", (req, res) => {
-    killed = true;
-    nodeState.killed = true;
-    res.status(200).send("Node stopped");
+  // current state of the node, with ?waitFor=decided&timeout=ms the answer
+  // waits for the decision and gives the state as it is when the wait ends
+  node.get("/getState", async (req, res) => {
+    const query = validated(validateStateQuery(req.query), res);
+    if (query === null) return;
+
+    if (query.waitFor === "decided") await settled(DEFAULT_INSTANCE, query.timeout);
+    res.status(200).json(getState());
   });
 
-  // current state of the node
-  node.get("/getState", (req, res) => {
-    if (isFaulty) {
-      res.status(200).json({
-        killed: nodeState.killed,
+  // current state of the node for a consensus instance, same query as /getState
+  node.get("/instances/:id/state", async (req, res) => {
+    const query = validated(validateStateQuery(req.query), res);
+    if (query === null) return;
+
+    if (getState(req.params.id) === null) {
+      res.status(404).send("Unknown instance");
+      return;
+    }
+    if (query.waitFor === "decided") await settled(req.params.id, query.timeout);
+    res.status(200).json(getState(req.params.id));
+  });
+
+  // resolves once nothing will change the outcome of the instance anymore:
+  // it decided, its loop ended, or the node stopped or is faulty
+  async function settled(instanceId: string, timeout: number) {
+    const deadline = clock.now() + timeout;
+    const over = () => {
+      const instance = instances.get(instanceId);
+      return killed || faulty || instance?.state.decided === true || instance?.ended === true;
+    };
+
+    while (!over() && clock.now() < deadline) {
+      await clock.sleep(Math.min(config.messagePoll, deadline - clock.now()));
+    }
+  }
+
+  // null if a correct node never heard of the instance
+  function getState(instanceId: string = DEFAULT_INSTANCE): NodeState | null {
+    if (faulty) {
+      return {
+        killed,
         x: null,
         decided: null,
         k: null,
+      };
+    }
+
+    const instance = instances.get(instanceId);
+    if (instance === undefined) return null;
+
+    return { ...instance.state, rejected: { ...rejected } };
+  }
+
+  // replicated log built on binary instances
+  const replicatedLog = createReplicatedLog({
+    nodeId,
+    members: () => configuration.members,
+    clock,
+    // a slot given up on at the round cap could be committed elsewhere
+    agree: (instanceId, value) => agree(instanceId, value, true),
+    broadcast: (entry) => {
+      configuration.members.forEach((member) => {
+        if (member !== nodeId) forwardEntry(member, entry);
       });
+    },
+    isStopped: () => killed,
+    onCommit: (entry) => {
+      if (isMembershipChange(entry.data)) applyMembershipChange(entry.data);
+    },
+  });
+
+  // every node applies the changes in log order, so they all go through the same epochs
+  function applyMembershipChange(change: MembershipChange) {
+    // refused when submitted, but two joins for one id can both be submitted
+    // before either commits: only the first one is applied
+    if (change.membership === "join" && isRegistered(change.node)) return;
+
+    configuration = applyChange(configuration, change);
+    if (change.membership === "join") {
+      keys.registry.add(change.node, importPublicKey(change.publicKey));
+      if (change.address !== undefined) transport.setPeer(change.node, change.address);
+    }
+    if (change.membership === "leave") {
+      departed.add(change.node);
+      if (change.node === nodeId) stop();
+    }
+  }
+
+  // members and nodes that left, taken from the committed log so that every
+  // node answers the same
+  function isRegistered(id: number) {
+    return configuration.members.includes(id) || departed.has(id);
+  }
+
+  // everything a joining node needs, taken at once so that they match
+  function getMembership(): MembershipSnapshot {
+    const publicKeys: Record<number, string> = {};
+    configuration.members.forEach((member) => {
+      const publicKey =
+        member === nodeId ? createPublicKey(keys.privateKey) : keys.registry.publicKey(member);
+      if (publicKey) publicKeys[member] = exportPublicKey(publicKey);
+    });
+
+    return {
+      configuration,
+      publicKeys,
+      addresses: transport.peers(),
+      entries: replicatedLog.entries(),
+      pending: replicatedLog.pending(),
+    };
+  }
+
+  // submits a membership change to the log, null if the node can't or the
+  // joining id is taken
+  function changeMembership(change: MembershipChange) {
+    if (killed || silent || !isMember()) return null;
+    if (change.membership === "join" && isRegistered(change.node)) return null;
+    return replicatedLog.submit(change);
+  }
+
+  // asks the sponsor to let the node in, then takes over its log and configuration
+  async function joinNetwork(sponsor: number, address?: string) {
+    const change: MembershipChange = {
+      membership: "join",
+      node: nodeId,
+      publicKey: exportPublicKey(createPublicKey(keys.privateKey)),
+      ...(address !== undefined ? { address } : {}),
+    };
+    await transport.changeMembership(sponsor, change);
+
+    let snapshot = await transport.getMembership(sponsor);
+    while (!snapshot.configuration.members.includes(nodeId)) {
+      if (killed) return;
+      await clock.sleep(config.readinessPoll);
+      snapshot = await transport.getMembership(sponsor);
+    }
+
+    Object.entries(snapshot.publicKeys).forEach(([member, publicKey]) => {
+      keys.registry.add(Number(member), importPublicKey(publicKey));
+    });
+    Object.entries(snapshot.addresses).forEach(([member, peer]) => {
+      transport.setPeer(Number(member), peer);
+    });
+    configuration = snapshot.configuration;
+    snapshot.entries.forEach(({ data }) => {
+      if (isMembershipChange(data) && data.membership === "leave") departed.add(data.node);
+    });
+    replicatedLog.install(snapshot.entries, snapshot.pending);
+  }
+
+  // current configuration, members' keys and log
+  node.get("/membership", (req, res) => {
+    res.status(200).json(getMembership());
+  });
+
+  // body: { node, publicKey, address? }, agreed through the replicated log
+  node.post("/membership/join", (req, res) => {
+    const change = validated(validateMembershipRequest(req.body, "join", isRegistered), res);
+    if (change === null) return;
+
+    const entry = changeMembership(change);
+    if (entry === null) {
+      res.status(500).send("Node is stopped, faulty or not a member");
       return;
     }
-    res.status(200).json(nodeState);
-    return;
-  });
-
-  // validates if an object is conform to the NodeState type
-  function isValidNodeState(data: any): data is NodeState {
-    return (
-      typeof data === "object" &&
-      data !== null &&
-      "x" in data &&
-      "decided" in data &&
-      "k" in data &&
-      "killed" in data &&
-      (data.x === 0 || data.x === 1 || data.x === "?" || data.x === null) &&
-      (typeof data.decided === "boolean" || data.decided === null) &&
-      (typeof data.k === "number" || data.k === null) &&
-      typeof data.killed === "boolean"
-    );
+    res.status(202).json(entry);
+  });
+
+  // body: { node }
+  node.post("/membership/leave", (req, res) => {
+    const change = validated(validateMembershipRequest(req.body, "leave"), res);
+    if (change === null) return;
+
+    const entry = changeMembership(change);
+    if (entry === null) {
+      res.status(500).send("Node is stopped, faulty or not a member");
+      return;
+    }
+    res.status(202).json(entry);
+  });
+
+  async function forwardEntry(to: number, entry: LogEntry) {
+    const request = startRequest();
+
+    try {
+      await transport.forward(to, entry, request.signal);
+    } catch (error) {
+      if (!killed) console.error(`Failed to forward log entry ${entry.id} to node ${to}`);
+    } finally {
+      request.done();
+    }
   }
 
-  // Start the server for this node
-  const server = node.listen(BASE_NODE_PORT + nodeId, async () => {
-    console.log(`Node ${nodeId} is listening on port ${BASE_NODE_PORT + nodeId}`);
-    setNodeIsReady(nodeId);
+  // submit an entry to the replicated log
+  node.post("/log", (req, res) => {
+    if (killed || silent) {
+      res.status(500).send("Node is stopped or faulty");
+      return;
+    }
+    const request = validated(validateSubmitRequest(req.body), res);
+    if (request === null) return;
+
+    res.status(200).json(replicatedLog.submit(request.data));
+  });
+
+  // entries committed so far, the same prefix on every correct node
+  node.get("/log", (req, res) => {
+    res.status(200).json(replicatedLog.entries());
+  });
+
+  // entry forwarded by the node it was submitted to
+  node.post("/log/entries", (req, res) => {
+    if (killed || silent) {
+      res.status(500).send("Node is stopped or faulty");
+      return;
+    }
+    const error = acceptEntry(req.body);
+    if (error !== null) {
+      res.status(400).json(error);
+      return;
+    }
+    res.sendStatus(200);
+  });
+
+  // entries that do not validate are counted with the malformed messages
+  function acceptEntry(data: unknown): ProtocolError | null {
+    const validation = validateLogEntry(data);
+    if (!validation.ok) {
+      rejectMalformed(validation.error);
+      return validation.error;
+    }
+
+    replicatedLog.accept(validation.value);
+    return null;
+  }
+
+  // the last config.traceLimit events recorded by this node, as JSON or as
+  // JSONL with ?format=jsonl
+  node.get("/trace", (req, res) => {
+    if (req.query.format === "jsonl") {
+      res.status(200).type("application/x-ndjson").send(toJsonl(log.events));
+      return;
+    }
+    res.status(200).json(log.events);
+  });
+
+  // Server-Sent Events: "state" with the state of the default instance on
+  // connection and after each decision, stop or restart, "trace" with every
+  // event the node records from then on
+  node.get("/events", (req, res) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send("state", getState());
+    const listener = (event: TraceEvent) => {
+      send("trace", event);
+      if (["decision", "stop", "restart"].includes(event.type)) send("state", getState());
+    };
+    listeners.add(listener);
+
+    req.on("close", () => {
+      listeners.delete(listener);
+    });
+  });
+
+  // Prometheus text format, or the metric families as JSON with ?format=json
+  node.get("/metrics", (req, res) => {
+    if (req.query.format === "json") {
+      res.status(200).json(metrics.collect());
+      return;
+    }
+    res.status(200).type(PROMETHEUS_CONTENT_TYPE).send(toPrometheus(metrics.collect()));
   });
 
+  // Start the server for this node
+  const server = await transport.listen(
+    {
+      nodeId,
+      receive: (message) => {
+        if (killed || silent) return false;
+        acceptMessage(message);
+        return true;
+      },
+      start,
+      stop,
+      restart,
+      resend,
+      injectFault,
+      getState,
+      acceptEntry: (entry) => {
+        if (killed || silent) return false;
+        acceptEntry(entry);
+        return true;
+      },
+      submit: (data) => (killed || silent ? null : replicatedLog.submit(data)),
+      getLog: replicatedLog.entries,
+      getMembership,
+      changeMembership,
+      getMetrics: metrics.collect,
+    },
+    node
+  );
+  server.on("close", close);
+  setNodeIsReady(nodeId);
+
+  if (options.join) {
+    const { sponsor, address } = options.join;
+    joinNetwork(sponsor, address).catch((error) => {
+      console.error(`Node ${nodeId} could not join through node ${sponsor}`, error);
+    });
+  }
+
   return server;
-}
\ No newline at end of file
+}
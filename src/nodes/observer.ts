@@ -0,0 +1,131 @@
+import * as http from "http";
+import express from "express";
+import { OBSERVER_PORT } from "../config";
+import { dashboardRoutes } from "../dashboard";
+import { collectMetrics, PROMETHEUS_CONTENT_TYPE, toPrometheus } from "../metrics";
+import { NetworkController, networkRoutes } from "../network";
+import { checkProperties, isFaultyState, Violation } from "../properties";
+import { TraceRecorder } from "../trace";
+import { createHttpTransport, Transport } from "../transport";
+import { BinaryValue, NodeState, Value } from "../types";
+import { valueKey } from "../utils";
+
+// aggregated view of a whole network
+export type NetworkSummary<V = BinaryValue> = {
+  N: number;
+  nodes: (NodeState<V> | null)[]; // null for nodes that could not be reached
+  decidedValue: Value<V> | null; // value decided by the correct nodes, null if none or conflicting
+  finality: boolean; // every correct node that was not stopped decided
+  rounds: Record<number, number>; // number of correct nodes at each round k
+  breakdown: {
+    live: number;
+    killed: number;
+    faulty: number;
+    unreachable: number;
+  };
+  violations: Violation[];
+};
+
+export type ObserverOptions<V = BinaryValue> = {
+  transport?: Transport;
+  initialValues?: Value<V>[]; // needed to check validity
+  network?: NetworkController; // served under /network/* to partition and heal at runtime
+  trace?: TraceRecorder; // streamed to the dashboard when the nodes run in this process
+  interval?: number; // ms between two summaries pushed to the dashboard, 500 by default
+};
+
+export async function getNetworkSummary<V = BinaryValue>(
+  N: number,
+  options: ObserverOptions<V> = {}
+): Promise<NetworkSummary<V>> {
+  const transport = options.transport ?? createHttpTransport();
+
+  const nodes = await Promise.all(
+    new Array(N).fill(0).map((_, index) =>
+      (transport.getState(index) as Promise<NodeState<V>>).catch(() => null)
+    )
+  );
+
+  const breakdown = { live: 0, killed: 0, faulty: 0, unreachable: 0 };
+  const rounds: Record<number, number> = {};
+  const correct: number[] = [];
+
+  nodes.forEach((state, index) => {
+    if (state === null) {
+      breakdown.unreachable++;
+      return;
+    }
+    if (isFaultyState(state)) {
+      breakdown.faulty++;
+      return;
+    }
+
+    correct.push(index);
+    if (state.killed) breakdown.killed++;
+    else breakdown.live++;
+    if (state.k !== null) rounds[state.k] = (rounds[state.k] ?? 0) + 1;
+  });
+
+  const decided = correct.filter((index) => nodes[index]?.decided === true);
+  // decided values by key, so that non-binary values compare by content
+  const decidedValues = new Map<string, Value<V> | null>();
+  decided.forEach((index) => {
+    const x = nodes[index]?.x ?? null;
+    decidedValues.set(valueKey(x), x);
+  });
+  return {
+    N,
+    nodes,
+    decidedValue:
+      decidedValues.size === 1 ? (Array.from(decidedValues.values())[0] ?? null) : null,
+    finality:
+      correct.length > 0 &&
+      correct.every((index) => nodes[index]?.decided || nodes[index]?.killed),
+    rounds,
+    breakdown,
+    // termination can only be judged once the run is over
+    violations: checkProperties({
+      states: nodes,
+      ...(options.initialValues ? { initialValues: options.initialValues } : {}),
+    }),
+  };
+}
+
+// serves the summary of the network on GET /network, the metrics of every node
+// on GET /metrics, a live dashboard on GET /dashboard, and the network
+// conditions' admin routes when given
+export async function launchObserver<V = BinaryValue>(
+  N: number,
+  options: ObserverOptions<V> = {},
+  port: number = OBSERVER_PORT
+) {
+  const observer = express();
+
+  observer.get("/network", async (req, res) => {
+    res.status(200).json(await getNetworkSummary(N, options));
+  });
+
+  // one scrape target for the whole network, every series labelled with its node
+  observer.get("/metrics", async (req, res) => {
+    const metrics = await collectMetrics(N, options.transport ?? createHttpTransport());
+    res.status(200).type(PROMETHEUS_CONTENT_TYPE).send(toPrometheus(metrics));
+  });
+
+  observer.use(
+    dashboardRoutes({
+      N,
+      transport: options.transport ?? createHttpTransport(),
+      summary: () => getNetworkSummary(N, options) as Promise<NetworkSummary<unknown>>,
+      ...(options.trace ? { trace: options.trace } : {}),
+      ...(options.interval !== undefined ? { interval: options.interval } : {}),
+    })
+  );
+  if (options.network) observer.use(networkRoutes(options.network));
+
+  return new Promise<http.Server>((resolve) => {
+    const server = observer.listen(port, () => {
+      console.log(`Observer is listening on port ${port}`);
+      resolve(server);
+    });
+  });
+}
@@ -0,0 +1,126 @@
+import { DEFAULT_INSTANCE } from "../config";
+import { NodeState } from "../types";
+import { valueKey } from "../utils";
+import { Run, Violation } from "./types";
+
+type Decision = {
+  value: unknown;
+  round: number | null;
+};
+
+// faulty nodes hide their state behind nulls
+export function isFaultyState(state: NodeState<unknown>) {
+  return state.x === null && state.decided === null && state.k === null;
+}
+
+// nodes the properties apply to
+function correctNodes<V>(run: Run<V>) {
+  const N = run.faultyList?.length ?? run.states?.length ?? run.initialValues?.length ?? 0;
+  return new Array(N)
+    .fill(0)
+    .map((_, index) => index)
+    .filter((index) => {
+      if (run.faultyList) return !run.faultyList[index];
+      const state = run.states?.[index];
+      return state === undefined || state === null || !isFaultyState(state);
+    });
+}
+
+// every decision of each node, in the order they were taken
+function decisionsOf<V>(run: Run<V>, nodes: number[]) {
+  const decisions = new Map<number, Decision[]>(nodes.map((index) => [index, []]));
+  if (run.trace) {
+    const instance = run.instance ?? DEFAULT_INSTANCE;
+    run.trace
+      .filter((event) => event.type === "decision" && event.instance === instance)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach((event) => {
+        decisions.get(event.nodeId)?.push({ value: event.data.value, round: event.round });
+      });
+  } else {
+    nodes.forEach((index) => {
+      const state = run.states?.[index];
+      if (state?.decided) decisions.get(index)?.push({ value: state.x, round: state.k });
+    });
+  }
+  return decisions;
+}
+
+function roundsOf(decisions: Decision[]) {
+  return decisions.flatMap(({ round }) => (round === null ? [] : [round]));
+}
+
+// checks agreement, validity, integrity and termination of a run over its correct nodes
+export function checkProperties<V>(run: Run<V>): Violation[] {
+  const nodes = correctNodes(run);
+  const decisions = decisionsOf(run, nodes);
+  const decided = nodes.filter((index) => (decisions.get(index) ?? []).length > 0);
+  const first = (index: number) => (decisions.get(index) ?? [])[0] as Decision;
+  const violations: Violation[] = [];
+
+  // agreement: no two correct nodes decide differently
+  const values = new Set(decided.map((index) => valueKey(first(index).value)));
+  if (values.size > 1) {
+    violations.push({
+      property: "agreement",
+      nodes: decided,
+      rounds: decided.map((index) => first(index).round ?? -1),
+      message: `Correct nodes decided ${Array.from(values).join(" and ")}`,
+    });
+  }
+
+  // validity: if every correct node starts with v, v is the only possible decision
+  const inputs = nodes.map((index) => valueKey(run.initialValues?.[index]));
+  const unanimous = inputs.length > 0 && inputs.every((el) => el === inputs[0]);
+  if (run.initialValues && unanimous) {
+    const wrong = decided.filter((index) => valueKey(first(index).value) !== inputs[0]);
+    if (wrong.length > 0) {
+      violations.push({
+        property: "validity",
+        nodes: wrong,
+        rounds: wrong.map((index) => first(index).round ?? -1),
+        message: `Every correct node started with ${inputs[0]} but some decided otherwise`,
+      });
+    }
+  }
+
+  // integrity: a node decides at most once
+  const twice = decided.filter((index) => (decisions.get(index) ?? []).length > 1);
+  if (twice.length > 0) {
+    violations.push({
+      property: "integrity",
+      nodes: twice,
+      rounds: twice.flatMap((index) => roundsOf(decisions.get(index) ?? [])),
+      message: `Nodes ${twice.join(", ")} decided more than once`,
+    });
+  }
+
+  // termination: every correct node that was not stopped decides within the budget
+  if (run.roundBudget !== undefined) {
+    const budget = run.roundBudget;
+    // stopped for good: the last stop was not followed by a restart
+    const stopped = (index: number) =>
+      run.states?.[index]?.killed === true ||
+      (run.trace ?? [])
+        .filter(
+          (event) =>
+            (event.type === "stop" || event.type === "restart") && event.nodeId === index
+        )
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .pop()?.type === "stop";
+    const late = nodes.filter((index) => {
+      if (!decided.includes(index)) return !stopped(index);
+      return (first(index).round ?? 0) > budget;
+    });
+    if (late.length > 0) {
+      violations.push({
+        property: "termination",
+        nodes: late,
+        rounds: late.flatMap((index) => roundsOf(decisions.get(index) ?? [])),
+        message: `Nodes ${late.join(", ")} did not decide within ${budget} rounds`,
+      });
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,2 @@
+export { checkProperties, isFaultyState } from "./check";
+export type { Property, Run, Violation } from "./types";
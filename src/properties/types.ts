@@ -0,0 +1,21 @@
+import { TraceEvent } from "../trace";
+import { BinaryValue, NodeState, Value } from "../types";
+
+export type Property = "agreement" | "validity" | "integrity" | "termination";
+
+export type Violation = {
+  property: Property;
+  nodes: number[]; // correct nodes involved
+  rounds: number[]; // rounds at which they decided, empty when they never did
+  message: string;
+};
+
+// what is known about a run, either from the final states, the trace or both
+export type Run<V = BinaryValue> = {
+  initialValues?: Value<V>[]; // needed to check validity
+  faultyList?: boolean[]; // by default nodes whose state is hidden behind nulls are faulty
+  states?: (NodeState<V> | null)[]; // null for nodes that could not be reached
+  trace?: TraceEvent[]; // decisions are read from it when given, needed to check integrity
+  instance?: string; // instance checked in the trace, DEFAULT_INSTANCE by default
+  roundBudget?: number; // checks termination when given, use Infinity for no budget
+};
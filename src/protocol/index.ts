@@ -0,0 +1,24 @@
+export {
+  PROTOCOL_VERSION,
+  STATE_WAIT_TIMEOUT,
+  validateFaultRequest,
+  validateLogEntry,
+  validateMembershipRequest,
+  validateMessage,
+  validateResendRequest,
+  validateStartRequest,
+  validateStateQuery,
+  validateSubmitRequest,
+} from "./validate";
+export type {
+  FaultRequest,
+  LogEntry,
+  MembershipRequest,
+  Message,
+  ProtocolError,
+  ResendRequest,
+  StartRequest,
+  StateQuery,
+  SubmitRequest,
+  Validation,
+} from "./types";
@@ -0,0 +1,53 @@
+import { FaultSpec } from "../faults";
+import { MembershipChange } from "../membership";
+import { BinaryValue, Phase, Value } from "../types";
+
+// consensus message, POST /message
+export type Message<V = BinaryValue> = {
+  version: number; // protocol version of the sender, messages of other versions are refused
+  instance: string; // consensus instance the message belongs to
+  phase: Phase;
+  round: number;
+  sender: number;
+  value: Value<V>;
+  timestamp: number; // Lamport timestamp of the sender
+  signature?: string; // Ed25519 signature of the sender, base64
+};
+
+// entry submitted to the replicated log, identified by its origin node and
+// the number of entries that node submitted before it, POST /log/entries
+export type LogEntry = {
+  id: string;
+  origin: number;
+  seq: number;
+  data: unknown;
+};
+
+// POST /instances/:id/start
+export type StartRequest = { initialValue: unknown };
+
+// POST /log
+export type SubmitRequest = { data: unknown };
+
+// POST /resend, sent by a restarted node
+export type ResendRequest = { from: number };
+
+// POST /fault
+export type FaultRequest = FaultSpec;
+
+// POST /membership/join and /membership/leave, the kind of change is given by the route
+export type MembershipRequest = MembershipChange;
+
+// query of GET /getState and /instances/:id/state. With waitFor=decided the
+// answer is held back until the instance decided, ended or the node stopped,
+// at most timeout ms
+export type StateQuery = { waitFor: "decided" | null; timeout: number };
+
+// body of the 400 answered to a request that does not validate
+export type ProtocolError = {
+  code: "malformed" | "version";
+  field: string | null; // first offending field, null when the body itself is wrong
+  message: string;
+};
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; error: ProtocolError };
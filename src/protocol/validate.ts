@@ -0,0 +1,193 @@
+import { FAULT_NAMES, FaultName } from "../faults";
+import { MembershipChange } from "../membership";
+import { Phase } from "../types";
+import { isBinaryValue } from "../utils";
+import {
+  FaultRequest,
+  LogEntry,
+  Message,
+  MembershipRequest,
+  ProtocolError,
+  ResendRequest,
+  StartRequest,
+  StateQuery,
+  SubmitRequest,
+  Validation,
+} from "./types";
+
+// bumped on every change of the wire format, nodes refuse messages of other versions
+export const PROTOCOL_VERSION = 1;
+
+// longest a state request waits for the decision when it gives no timeout
+export const STATE_WAIT_TIMEOUT = 10000;
+
+function malformed(field: string | null, message: string): { ok: false; error: ProtocolError } {
+  return { ok: false, error: { code: "malformed", field, message } };
+}
+
+function isObject(data: unknown): data is Record<string, unknown> {
+  return typeof data === "object" && data !== null && !Array.isArray(data);
+}
+
+function isNatural(data: unknown): data is number {
+  return Number.isInteger(data) && (data as number) >= 0;
+}
+
+// values of binary nodes are 0, 1 or "?", multi-valued ones carry any JSON value
+export function validateMessage(
+  data: unknown,
+  multiValued: boolean
+): Validation<Message<unknown>> {
+  if (!isObject(data)) return malformed(null, "Expected a message object");
+
+  // checked first: a node of another version may not agree on the other fields
+  const { version } = data;
+  if (!Number.isInteger(version)) return malformed("version", "version must be an integer");
+  if (version !== PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      error: {
+        code: "version",
+        field: "version",
+        message: `Protocol version ${version} is not supported, expected ${PROTOCOL_VERSION}`,
+      },
+    };
+  }
+
+  const { instance, phase, round, sender, value, timestamp, signature } = data;
+  if (typeof instance !== "string" || instance === "") {
+    return malformed("instance", "instance must be a non-empty string");
+  }
+  if (phase !== 1 && phase !== 2) return malformed("phase", "phase must be 1 or 2");
+  if (!isNatural(round)) return malformed("round", "round must be a non-negative integer");
+  if (!isNatural(sender)) return malformed("sender", "sender must be a node id");
+  if (multiValued ? value === undefined : !isBinaryValue(value) && value !== "?") {
+    return malformed("value", multiValued ? "value is missing" : 'value must be 0, 1 or "?"');
+  }
+  if (!isNatural(timestamp)) {
+    return malformed("timestamp", "timestamp must be a non-negative integer");
+  }
+  if (signature !== undefined && typeof signature !== "string") {
+    return malformed("signature", "signature must be a base64 string");
+  }
+
+  return {
+    ok: true,
+    value: {
+      version: PROTOCOL_VERSION,
+      instance,
+      phase: phase as Phase,
+      round,
+      sender,
+      value,
+      timestamp,
+      ...(signature !== undefined ? { signature } : {}),
+    },
+  };
+}
+
+export function validateLogEntry(data: unknown): Validation<LogEntry> {
+  if (!isObject(data)) return malformed(null, "Expected a log entry object");
+
+  const { id, origin, seq } = data;
+  if (typeof id !== "string" || id === "") {
+    return malformed("id", "id must be a non-empty string");
+  }
+  if (!isNatural(origin)) return malformed("origin", "origin must be a node id");
+  if (!isNatural(seq)) return malformed("seq", "seq must be a non-negative integer");
+  if (!("data" in data)) return malformed("data", "data is missing");
+
+  return { ok: true, value: { id, origin, seq, data: data.data } };
+}
+
+export function validateStartRequest(
+  data: unknown,
+  multiValued: boolean
+): Validation<StartRequest> {
+  if (!isObject(data)) return malformed(null, "Expected { initialValue }");
+
+  const { initialValue } = data;
+  if (initialValue === undefined || initialValue === null || initialValue === "?") {
+    return malformed("initialValue", "initialValue is missing");
+  }
+  if (!multiValued && !isBinaryValue(initialValue)) {
+    return malformed("initialValue", "initialValue must be 0 or 1");
+  }
+
+  return { ok: true, value: { initialValue } };
+}
+
+// a missing data field submits null
+export function validateSubmitRequest(data: unknown): Validation<SubmitRequest> {
+  if (!isObject(data)) return malformed(null, "Expected { data }");
+  return { ok: true, value: { data: data.data ?? null } };
+}
+
+export function validateResendRequest(data: unknown): Validation<ResendRequest> {
+  if (!isObject(data)) return malformed(null, "Expected { from }");
+  if (!isNatural(data.from)) return malformed("from", "from must be a node id");
+  return { ok: true, value: { from: data.from } };
+}
+
+export function validateFaultRequest(data: unknown): Validation<FaultRequest> {
+  if (!isObject(data)) return malformed(null, "Expected { strategy, arg? }");
+
+  const { strategy, arg } = data;
+  if (!FAULT_NAMES.includes(strategy as FaultName)) {
+    return malformed("strategy", `strategy must be one of ${FAULT_NAMES.join(", ")}`);
+  }
+  if (arg !== undefined && !(typeof arg === "number" && Number.isFinite(arg) && arg >= 0)) {
+    return malformed("arg", "arg must be a non-negative number");
+  }
+
+  return {
+    ok: true,
+    value: { strategy: strategy as FaultName, ...(arg !== undefined ? { arg } : {}) },
+  };
+}
+
+// registered tells the ids a join may not take, those of the members and of
+// every node that left
+export function validateMembershipRequest(
+  data: unknown,
+  membership: MembershipChange["membership"],
+  registered: (node: number) => boolean = () => false
+): Validation<MembershipRequest> {
+  if (!isObject(data)) return malformed(null, "Expected a membership change object");
+
+  const { node, publicKey, address } = data;
+  if (!isNatural(node)) return malformed("node", "node must be a node id");
+  if (membership === "leave") return { ok: true, value: { membership, node } };
+  if (registered(node)) return malformed("node", `node ${node} is already registered`);
+
+  if (typeof publicKey !== "string" || publicKey === "") {
+    return malformed("publicKey", "publicKey must be a base64 string");
+  }
+  if (address !== undefined && typeof address !== "string") {
+    return malformed("address", "address must be a URL");
+  }
+
+  return {
+    ok: true,
+    value: { membership, node, publicKey, ...(address !== undefined ? { address } : {}) },
+  };
+}
+
+// query values arrive as strings, anything but a single one is refused
+export function validateStateQuery(query: Record<string, unknown>): Validation<StateQuery> {
+  const { waitFor, timeout } = query;
+  if (waitFor !== undefined && waitFor !== "decided") {
+    return malformed("waitFor", 'waitFor must be "decided"');
+  }
+  if (timeout !== undefined && !(typeof timeout === "string" && /^\d+$/.test(timeout))) {
+    return malformed("timeout", "timeout must be a non-negative integer of ms");
+  }
+
+  return {
+    ok: true,
+    value: {
+      waitFor: waitFor === "decided" ? "decided" : null,
+      timeout: timeout !== undefined ? Number(timeout) : STATE_WAIT_TIMEOUT,
+    },
+  };
+}
@@ -0,0 +1,2 @@
+export { createReplicatedLog } from "./log";
+export type { ReplicatedLog, ReplicatedLogOptions } from "./log";
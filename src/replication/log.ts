@@ -0,0 +1,138 @@
+import { Clock } from "../simulation";
+import { LogEntry } from "../types";
+
+export type ReplicatedLogOptions = {
+  nodeId: number;
+  members: () => number[]; // nodes of the current configuration, the candidate origins
+  clock: Clock;
+  // runs a binary consensus instance with the node's input, resolves with the
+  // decided value or null if the instance ended undecided or the node stopped
+  agree: (instanceId: string, value: 0 | 1) => Promise<0 | 1 | null>;
+  // hands an entry over to every other node, each node does it once for every
+  // entry it hears of so that an origin crashing midway does not lose it
+  broadcast: (entry: LogEntry) => void;
+  isStopped: () => boolean;
+  onCommit?: (entry: LogEntry) => void; // called in log order, before the next slot is filled
+};
+
+export type ReplicatedLog = ReturnType<typeof createReplicatedLog>;
+
+// append-only log agreed slot by slot: for each slot the nodes go through the
+// origins in turn and run one binary instance per candidate, "include the next
+// entry of this origin in the slot?", until one is accepted
+export function createReplicatedLog(options: ReplicatedLogOptions) {
+  const { nodeId, clock } = options;
+
+  const known = new Map<string, LogEntry>(); // every entry heard of, by id
+  const committed: LogEntry[] = [];
+  const nextSeq = new Map<number, number>(); // next entry of each origin to be considered
+  let seq = 0; // number of entries submitted to this node
+  let running = false;
+
+  function submit(data: unknown): LogEntry {
+    const entry: LogEntry = { id: `${nodeId}:${seq}`, origin: nodeId, seq, data };
+    seq++;
+    accept(entry);
+    return entry;
+  }
+
+  // records an entry submitted here or forwarded by another node, and relays
+  // it the first time
+  function accept(entry: LogEntry) {
+    if (!known.has(entry.id)) {
+      known.set(entry.id, entry);
+      options.broadcast(entry);
+    }
+
+    // the slots are filled in the background from the first entry on
+    if (!running) {
+      running = true;
+      run().catch((error) => {
+        console.error(`Node ${nodeId} replicated log failed`, error);
+      });
+    }
+  }
+
+  function hasPending() {
+    return known.size > committed.length;
+  }
+
+  // ends when the node stops, the next entry heard of starts it again
+  async function run() {
+    try {
+      while (!options.isStopped()) {
+        if (!hasPending()) {
+          await clock.sleep(50);
+          continue;
+        }
+        if (!(await fillSlot())) return;
+      }
+    } finally {
+      running = false;
+    }
+  }
+
+  // false once the node stopped
+  async function fillSlot() {
+    const slot = committed.length;
+
+    // the configuration only changes when an entry is committed
+    const members = options.members();
+
+    for (let attempt = 0; !options.isStopped(); attempt++) {
+      // let entries that are on their way arrive before going around again
+      if (attempt > 0 && attempt % members.length === 0) await clock.sleep(50);
+
+      const origin = members[(slot + attempt) % members.length] as number;
+      const id = `${origin}:${nextSeq.get(origin) ?? 0}`;
+
+      // an instance only ends undecided when the node stops or restarts, the
+      // same one is asked again: another could decide differently
+      let decided = await options.agree(`log-${slot}-${attempt}`, known.has(id) ? 1 : 0);
+      while (decided === null) {
+        if (options.isStopped()) return false;
+        await clock.sleep(50);
+        decided = await options.agree(`log-${slot}-${attempt}`, known.has(id) ? 1 : 0);
+      }
+      if (decided === 0) continue;
+
+      // some correct node had the entry, its relay reaches us eventually
+      while (!known.has(id)) {
+        if (options.isStopped()) return false;
+        await clock.sleep(5);
+      }
+      commit(known.get(id) as LogEntry);
+      return true;
+    }
+
+    return false;
+  }
+
+  function commit(entry: LogEntry) {
+    committed.push(entry);
+    nextSeq.set(entry.origin, entry.seq + 1);
+    options.onCommit?.(entry);
+  }
+
+  // takes over the log of another node, for nodes joining a running network.
+  // The configuration the entries lead to is installed by the caller
+  function install(entries: LogEntry[], pending: LogEntry[]) {
+    entries.forEach((entry) => {
+      known.set(entry.id, entry);
+      committed.push(entry);
+      nextSeq.set(entry.origin, entry.seq + 1);
+    });
+    pending.forEach(accept);
+  }
+
+  return {
+    submit,
+    accept,
+    install,
+    entries: () => [...committed],
+    pending: () => {
+      const ids = new Set(committed.map((entry) => entry.id));
+      return Array.from(known.values()).filter((entry) => !ids.has(entry.id));
+    },
+  };
+}
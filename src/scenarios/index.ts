@@ -0,0 +1,2 @@
+export { loadScenarioFile, runScenarioFile } from "./runner";
+export type { Expectation, ScenarioFile, ScenarioReport } from "./types";
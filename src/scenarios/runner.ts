@@ -0,0 +1,86 @@
+import * as fs from "fs";
+import * as path from "path";
+import { faultsFromSpecs } from "../faults";
+import { createNetworkConditions } from "../network";
+import { startConsensus } from "../nodes/consensus";
+import { launchNodes } from "../nodes/launchNodes";
+import { getNetworkSummary } from "../nodes/observer";
+import { checkProperties } from "../properties";
+import { createRandom, createSimulation } from "../simulation";
+import { valueKey } from "../utils";
+import { ScenarioFile, ScenarioReport } from "./types";
+
+// reads a scenario file, only JSON is supported as the repo has no YAML parser
+export function loadScenarioFile(file: string): ScenarioFile {
+  if (path.extname(file) !== ".json")
+    throw new Error(`Scenario files must be JSON, got ${path.basename(file)}`);
+
+  const scenario = JSON.parse(fs.readFileSync(file, "utf8")) as ScenarioFile;
+  const missing = (["seed", "N", "F", "initialValues", "faulty"] as const).filter(
+    (key) => scenario[key] === undefined
+  );
+  if (missing.length > 0)
+    throw new Error(`Scenario ${file} is missing ${missing.join(", ")}`);
+  return { name: path.basename(file, ".json"), ...scenario };
+}
+
+// runs a scenario in a seeded simulation and checks its expected outcome
+export async function runScenarioFile(scenario: ScenarioFile): Promise<ScenarioReport> {
+  const simulation = createSimulation(scenario.seed);
+  const network = scenario.network
+    ? createNetworkConditions(scenario.network, {
+        clock: simulation.clock,
+        random: createRandom(scenario.seed ^ 0x2545f491),
+      })
+    : undefined;
+  const faultyList = new Array(scenario.N)
+    .fill(false)
+    .map((_, index) => scenario.faulty.includes(index));
+
+  await launchNodes(scenario.N, scenario.F, scenario.initialValues, faultyList, {
+    simulation,
+    faults: faultsFromSpecs(scenario.faults ?? {}),
+    ...(network ? { network } : {}),
+    ...(scenario.config ? { config: scenario.config } : {}),
+  });
+  await startConsensus(scenario.N, simulation.transport);
+  await simulation.run({ maxTime: scenario.maxTime ?? 10000 });
+
+  const summary = await getNetworkSummary(scenario.N, {
+    transport: simulation.transport,
+    initialValues: scenario.initialValues,
+  });
+  const expectation = scenario.expect ?? {};
+  const violations = checkProperties({
+    initialValues: scenario.initialValues,
+    faultyList,
+    states: summary.nodes,
+    ...(expectation.withinRounds !== undefined
+      ? { roundBudget: expectation.withinRounds }
+      : {}),
+  });
+
+  const failures = violations.map((violation) => violation.message);
+  if ((expectation.finality ?? true) && !summary.finality)
+    failures.push("Some correct nodes did not decide");
+  if (
+    expectation.decide !== undefined &&
+    valueKey(summary.decidedValue) !== valueKey(expectation.decide)
+  )
+    failures.push(
+      `Expected ${valueKey(expectation.decide)} to be decided, got ${valueKey(summary.decidedValue)}`
+    );
+
+  const rounds = Object.keys(summary.rounds).map(Number);
+  return {
+    name: scenario.name ?? "scenario",
+    seed: scenario.seed,
+    passed: failures.length === 0,
+    failures,
+    decidedValue: summary.decidedValue,
+    finality: summary.finality,
+    rounds: rounds.length > 0 ? Math.max(...rounds) : null,
+    violations,
+    states: summary.nodes,
+  };
+}
@@ -0,0 +1,42 @@
+import { NetworkConfigInput } from "../config";
+import { FaultSpec } from "../faults";
+import { NetworkConditions } from "../network";
+import { Violation } from "../properties";
+import { NodeState, Value } from "../types";
+
+// outcome a scenario must reach to pass
+export type Expectation = {
+  decide?: Value<unknown>; // value every correct node must decide
+  withinRounds?: number; // round by which every correct node must have decided
+  finality?: boolean; // every correct node decides, true by default
+};
+
+// an experiment checked into the repo, plain JSON
+export type ScenarioFile = {
+  name?: string;
+  description?: string;
+  seed: number;
+  N: number;
+  F: number;
+  initialValues: Value<unknown>[];
+  faulty: number[]; // indexes of the faulty nodes
+  faults?: Record<number, FaultSpec>; // faulty nodes without one crash silently
+  network?: NetworkConditions;
+  // node timing and fault model, e.g. { "node": { "maxRounds": 5 } }. The fault
+  // model is the strategies' unless given, null to check no F
+  config?: NetworkConfigInput;
+  maxTime?: number; // virtual ms after which the run stops, 10000 by default
+  expect?: Expectation;
+};
+
+export type ScenarioReport = {
+  name: string;
+  seed: number;
+  passed: boolean;
+  failures: string[]; // unmet expectations and violated properties
+  decidedValue: Value<unknown> | null;
+  finality: boolean;
+  rounds: number | null; // highest round reached by a correct node
+  violations: Violation[];
+  states: (NodeState<unknown> | null)[];
+};
@@ -0,0 +1,89 @@
+// source of time for the nodes, either the real one or a virtual one driven by a scheduler
+export interface Clock {
+  now(): number;
+  // runs fn after ms, returns a function cancelling it
+  setTimeout(fn: () => void, ms: number): () => void;
+  sleep(ms: number): Promise<void>;
+}
+
+export const realClock: Clock = {
+  now: () => new Date().getTime(),
+  setTimeout(fn: () => void, ms: number) {
+    const timeout = setTimeout(fn, ms);
+    return () => clearTimeout(timeout);
+  },
+  sleep: (ms: number) => new Promise((res) => setTimeout(res, ms)),
+};
+
+type ScheduledEvent = {
+  time: number;
+  seq: number; // tie breaker so events scheduled for the same time keep their order
+  fn: () => void;
+};
+
+export type RunOptions = {
+  until?: () => boolean; // stops as soon as it returns true
+  maxTime?: number; // virtual time after which the run stops
+};
+
+export interface VirtualClock extends Clock {
+  // processes scheduled events one at a time until none is left or a run option stops it
+  run(options?: RunOptions): Promise<void>;
+  pending(): number;
+}
+
+// virtual time only moves forward when the next scheduled event is processed
+export function createVirtualClock(): VirtualClock {
+  let now = 0;
+  let seq = 0;
+  let queue: ScheduledEvent[] = [];
+
+  function schedule(fn: () => void, ms: number) {
+    const event = { time: now + Math.max(0, ms), seq: seq++, fn };
+    // keep the queue sorted by time then insertion order
+    let index = queue.length;
+    while (
+      index > 0 &&
+      (queue[index - 1].time > event.time ||
+        (queue[index - 1].time === event.time && queue[index - 1].seq > event.seq))
+    ) {
+      index--;
+    }
+    queue.splice(index, 0, event);
+    return event;
+  }
+
+  return {
+    now: () => now,
+
+    setTimeout(fn: () => void, ms: number) {
+      const event = schedule(fn, ms);
+      return () => {
+        queue = queue.filter((el) => el !== event);
+      };
+    },
+
+    sleep(ms: number) {
+      return new Promise<void>((res) => {
+        schedule(res, ms);
+      });
+    },
+
+    async run(options: RunOptions = {}) {
+      for (;;) {
+        // let every pending promise settle so the order only depends on the
+        // queue, even when nothing was scheduled yet
+        await new Promise((res) => setImmediate(res));
+
+        if (queue.length === 0 || options.until?.()) return;
+        if (options.maxTime !== undefined && queue[0].time > options.maxTime) return;
+
+        const event = queue.shift() as ScheduledEvent;
+        now = event.time;
+        event.fn();
+      }
+    },
+
+    pending: () => queue.length,
+  };
+}
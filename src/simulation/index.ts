@@ -0,0 +1,61 @@
+import { createMemoryTransport } from "../transport/memory";
+import { Transport } from "../transport/types";
+import { Message } from "../types";
+import { createVirtualClock, RunOptions, VirtualClock } from "./clock";
+import { createRandom, Random } from "./random";
+
+export { createVirtualClock, realClock } from "./clock";
+export type { Clock, RunOptions, VirtualClock } from "./clock";
+export { createRandom } from "./random";
+export type { Random } from "./random";
+
+// a message handed over to its recipient, at a given virtual time
+export type Delivery = {
+  time: number;
+  to: number;
+  message: Message<unknown>;
+};
+
+export type Simulation = {
+  seed: number;
+  clock: VirtualClock;
+  random: Random; // used for the coin flips
+  transport: Transport;
+  trace: Delivery[];
+  run: (options?: RunOptions) => Promise<void>;
+};
+
+export type SimulationOptions = {
+  maxLatency?: number; // deliveries are delayed by 1 to maxLatency virtual ms, 10 by default
+};
+
+// deterministic network: same seed, same delivery order, same coin flips, same outcome
+export function createSimulation(
+  seed: number,
+  options: SimulationOptions = {}
+): Simulation {
+  const maxLatency = options.maxLatency ?? 10;
+  const clock = createVirtualClock();
+  // the network and the coins draw from separate streams so that changing
+  // one does not shift the other
+  const networkRandom = createRandom(seed);
+  const random = createRandom(seed ^ 0x5bd1e995);
+  const trace: Delivery[] = [];
+
+  const transport = createMemoryTransport({
+    clock,
+    latency: () => 1 + Math.floor(networkRandom() * maxLatency),
+    onDeliver: (to, message) => {
+      trace.push({ time: clock.now(), to, message });
+    },
+  });
+
+  return {
+    seed,
+    clock,
+    random,
+    transport,
+    trace,
+    run: (runOptions?: RunOptions) => clock.run(runOptions),
+  };
+}
@@ -0,0 +1,15 @@
+// source of randomness for the coin flips and the simulated network
+export type Random = () => number;
+
+// mulberry32, a small seeded PRNG returning floats in [0, 1)
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
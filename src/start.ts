@@ -22,17 +22,13 @@ async function main() {
   if (initialValues.length !== faultyArray.length)
     throw new Error("Lengths don't match");
 
-  if (
-    faultyArray.filter((faulty) => faulty === true).length >
-    initialValues.length / 2
-  )
-    throw new Error("Too many faulty nodes");
-
+  // the faulty nodes crash, launching fails unless F < N/2
   await launchNetwork(
     initialValues.length,
     faultyArray.filter((el) => el === true).length,
     initialValues,
-    faultyArray
+    faultyArray,
+    { config: { faultModel: "crash" } }
   );
 
   await delay(200);
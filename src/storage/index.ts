@@ -0,0 +1,2 @@
+export { createFileStore, createStoreDir } from "./wal";
+export type { DurableStore, WalRecord } from "./wal";
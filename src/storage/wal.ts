@@ -0,0 +1,56 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Phase } from "../types";
+
+// what a node needs to come back after a crash without contradicting itself
+export type WalRecord =
+  | {
+      type: "start";
+      instance: string;
+      initialValue: unknown;
+      multiValued: boolean;
+      unbounded: boolean;
+    }
+  | { type: "round"; instance: string; round: number; estimate: unknown }
+  | { type: "sent"; instance: string; phase: Phase; round: number; value: unknown }
+  | { type: "decision"; instance: string; round: number | null; value: unknown };
+
+export type DurableStore = {
+  path: string;
+  append: (record: WalRecord) => void; // written synchronously, before the node acts on it
+  records: () => WalRecord[];
+};
+
+// fresh directory for the write-ahead logs of a network
+export function createStoreDir() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "benor-wal-"));
+}
+
+// write-ahead log of a node, one JSON record per line in dir/node-<id>.wal
+export function createFileStore(dir: string, nodeId: number): DurableStore {
+  const file = path.join(dir, `node-${nodeId}.wal`);
+  fs.mkdirSync(dir, { recursive: true });
+
+  return {
+    path: file,
+
+    append(record: WalRecord) {
+      fs.appendFileSync(file, JSON.stringify(record) + "\n");
+    },
+
+    records() {
+      if (!fs.existsSync(file)) return [];
+      const records: WalRecord[] = [];
+      for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+        if (line === "") continue;
+        try {
+          records.push(JSON.parse(line));
+        } catch {
+          break; // torn write of the crash, nothing after it was acted on
+        }
+      }
+      return records;
+    },
+  };
+}
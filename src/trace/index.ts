@@ -0,0 +1,3 @@
+export { createEventLog, createTraceRecorder, mergeTraces, toJsonl } from "./log";
+export type { EventLog, TraceRecorder } from "./log";
+export type { TraceEvent, TraceEventType } from "./types";
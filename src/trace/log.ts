@@ -0,0 +1,90 @@
+import { Phase } from "../types";
+import { TraceEvent, TraceEventType } from "./types";
+
+export type EventLog = {
+  events: TraceEvent[]; // the last `limit` events
+  // current Lamport timestamp, to stamp outgoing messages
+  timestamp: () => number;
+  // moves the Lamport clock past a received timestamp
+  witness: (timestamp: number) => void;
+  record: (
+    type: TraceEventType,
+    instance: string | null,
+    round: number | null,
+    phase: Phase | null,
+    data?: TraceEvent["data"]
+  ) => TraceEvent;
+};
+
+// structured log of what a node does, `onEvent` sees every event as it is
+// recorded. Only the last `limit` events are kept, so that a long-running node
+// doesn't grow without bound
+export function createEventLog(
+  nodeId: number,
+  now: () => number,
+  onEvent?: (event: TraceEvent) => void,
+  limit: number = Infinity
+): EventLog {
+  const events: TraceEvent[] = [];
+  let lamport = 0;
+
+  return {
+    events,
+    timestamp: () => lamport,
+    witness(timestamp: number) {
+      lamport = Math.max(lamport, timestamp);
+    },
+    record(type, instance, round, phase, data = {}) {
+      lamport++;
+      const event: TraceEvent = {
+        type,
+        nodeId,
+        instance,
+        round,
+        phase,
+        timestamp: lamport,
+        time: now(),
+        data,
+      };
+      events.push(event);
+      if (events.length > limit) events.shift();
+      onEvent?.(event);
+      return event;
+    },
+  };
+}
+
+// events of several nodes merged in Lamport order, ties broken by node id
+export function mergeTraces(...traces: TraceEvent[][]): TraceEvent[] {
+  return traces
+    .flat()
+    .sort((a, b) => a.timestamp - b.timestamp || a.nodeId - b.nodeId);
+}
+
+export function toJsonl(events: TraceEvent[]): string {
+  return events.map((event) => JSON.stringify(event)).join("\n");
+}
+
+// collects the events of every node of a network as they happen
+export function createTraceRecorder() {
+  const events: TraceEvent[] = [];
+  const listeners = new Set<(event: TraceEvent) => void>();
+
+  return {
+    events,
+    record: (event: TraceEvent) => {
+      events.push(event);
+      listeners.forEach((listener) => listener(event));
+    },
+    // sees the events recorded from now on, returns a function unsubscribing
+    subscribe: (listener: (event: TraceEvent) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    toJsonl: () => toJsonl(mergeTraces(events)),
+  };
+}
+
+export type TraceRecorder = ReturnType<typeof createTraceRecorder>;
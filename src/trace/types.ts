@@ -0,0 +1,24 @@
+import { Phase } from "../types";
+
+export type TraceEventType =
+  | "round-start"
+  | "message-sent"
+  | "message-received"
+  | "message-rejected"
+  | "vote-tally"
+  | "coin-flip"
+  | "decision"
+  | "start-failed"
+  | "stop"
+  | "restart";
+
+export type TraceEvent = {
+  type: TraceEventType;
+  nodeId: number;
+  instance: string | null; // null for node-wide events
+  round: number | null;
+  phase: Phase | null;
+  timestamp: number; // Lamport timestamp, consistent with the order messages were exchanged
+  time: number; // clock time of the node, virtual in simulations
+  data: Record<string, unknown>; // details depending on the type of event
+};
@@ -0,0 +1,155 @@
+import * as http from "http";
+import { Express } from "express";
+import { resolveConfig } from "../config";
+import { FaultSpec } from "../faults";
+import { MembershipChange, MembershipSnapshot } from "../membership";
+import { MetricFamily } from "../metrics";
+import { LogEntry, Message } from "../types";
+import { isValidNodeState } from "../utils";
+import { NodeEndpoint, Transport } from "./types";
+
+// nodes listen on basePort + nodeId and talk through their HTTP routes,
+// unless given an explicit base URL in peers, e.g. { 7: "http://10.0.0.7:4000" }.
+// basePort is the configured one by default, 3000 unless BENOR_BASE_PORT is set
+export function createHttpTransport(
+  basePort: number = resolveConfig().basePort,
+  peers: Record<number, string> = {}
+): Transport {
+  const addresses = { ...peers };
+  const baseUrl = (nodeId: number) =>
+    addresses[nodeId] ?? `http://localhost:${basePort + nodeId}`;
+  const url = (nodeId: number, path: string) => `${baseUrl(nodeId)}${path}`;
+
+  return {
+    listen(endpoint: NodeEndpoint, app: Express) {
+      const port = Number(new URL(baseUrl(endpoint.nodeId)).port);
+      return new Promise<http.Server>((resolve) => {
+        const server = app.listen(port, () => {
+          console.log(`Node ${endpoint.nodeId} is listening on port ${port}`);
+          resolve(server);
+        });
+      });
+    },
+
+    async send(to: number, message: Message<unknown>, signal: AbortSignal) {
+      const response = await fetch(url(to, "/message"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(message),
+        signal,
+      });
+      // 500 is what a stopped or crashed node answers, a 400 still reached a running node
+      return response.status !== 500;
+    },
+
+    async forward(to: number, entry: LogEntry, signal: AbortSignal) {
+      await fetch(url(to, "/log/entries"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(entry),
+        signal,
+      });
+    },
+
+    async start(nodeId: number, instanceId?: string, initialValue?: unknown) {
+      if (instanceId === undefined) {
+        await fetch(url(nodeId, "/start"));
+        return;
+      }
+      await fetch(url(nodeId, `/instances/${encodeURIComponent(instanceId)}/start`), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ initialValue }),
+      });
+    },
+
+    async stop(nodeId: number) {
+      await fetch(url(nodeId, "/stop"));
+    },
+
+    async restart(nodeId: number) {
+      const response = await fetch(url(nodeId, "/restart"));
+      if (!response.ok) throw new Error(`Node ${nodeId} could not be restarted`);
+    },
+
+    async resend(to: number, from: number, signal: AbortSignal) {
+      await fetch(url(to, "/resend"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ from }),
+        signal,
+      });
+    },
+
+    async injectFault(nodeId: number, spec: FaultSpec) {
+      const response = await fetch(url(nodeId, "/fault"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(spec),
+      });
+      if (!response.ok) throw new Error(`Node ${nodeId} refused the fault ${spec.strategy}`);
+    },
+
+    async getState(nodeId: number, instanceId?: string) {
+      const path =
+        instanceId === undefined
+          ? "/getState"
+          : `/instances/${encodeURIComponent(instanceId)}/state`;
+      const response = await fetch(url(nodeId, path));
+      if (response.status === 404) {
+        throw new Error(`Node ${nodeId} does not know instance ${instanceId}`);
+      }
+      const data: unknown = await response.json();
+      // the transport carries any value, binary or not
+      if (!isValidNodeState(data, (x): x is unknown => x !== undefined)) {
+        throw new Error(`Invalid state from node ${nodeId}`);
+      }
+      return data;
+    },
+
+    async submit(nodeId: number, data: unknown) {
+      const response = await fetch(url(nodeId, "/log"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ data }),
+      });
+      if (!response.ok) throw new Error(`Node ${nodeId} refused the entry`);
+      return (await response.json()) as LogEntry;
+    },
+
+    async getLog(nodeId: number) {
+      return fetch(url(nodeId, "/log"))
+        .then((res) => res.json())
+        .then((json: any) => json as LogEntry[]);
+    },
+
+    async getMembership(nodeId: number) {
+      return fetch(url(nodeId, "/membership"))
+        .then((res) => res.json())
+        .then((json: any) => json as MembershipSnapshot);
+    },
+
+    async changeMembership(nodeId: number, change: MembershipChange) {
+      const path = change.membership === "join" ? "/membership/join" : "/membership/leave";
+      const response = await fetch(url(nodeId, path), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(change),
+      });
+      if (!response.ok) throw new Error(`Node ${nodeId} refused the membership change`);
+      return (await response.json()) as LogEntry;
+    },
+
+    setPeer(nodeId: number, address: string) {
+      addresses[nodeId] = address;
+    },
+
+    peers: () => ({ ...addresses }),
+
+    async getMetrics(nodeId: number) {
+      return fetch(url(nodeId, "/metrics?format=json"))
+        .then((res) => res.json())
+        .then((json: any) => json as MetricFamily[]);
+    },
+  };
+}
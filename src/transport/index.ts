@@ -0,0 +1,3 @@
+export { createHttpTransport } from "./http";
+export { createMemoryTransport } from "./memory";
+export type { NodeEndpoint, Transport } from "./types";
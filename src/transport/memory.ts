@@ -0,0 +1,140 @@
+import * as http from "http";
+import { Express } from "express";
+import { Clock, realClock } from "../simulation/clock";
+import { FaultSpec } from "../faults";
+import { MembershipChange } from "../membership";
+import { LogEntry, Message } from "../types";
+import { NodeEndpoint, Transport } from "./types";
+
+export type MemoryTransportOptions = {
+  clock?: Clock; // schedules the deliveries, real time by default
+  latency?: (from: number, to: number) => number; // delivery delay in ms, 0 by default
+  onDeliver?: (to: number, message: Message<unknown>) => void; // called for every delivered message
+};
+
+// in-process message bus: no port is bound, messages are handed over through the clock
+export function createMemoryTransport(options: MemoryTransportOptions = {}): Transport {
+  const clock = options.clock ?? realClock;
+  const endpoints = new Map<number, NodeEndpoint>();
+
+  function getEndpoint(nodeId: number) {
+    const endpoint = endpoints.get(nodeId);
+    if (endpoint === undefined) throw new Error(`Node ${nodeId} is not reachable`);
+    return endpoint;
+  }
+
+  // hands something over after latency, dropped as soon as the signal aborts
+  function deliver<T>(latency: number, signal: AbortSignal, what: string, fn: () => T) {
+    return new Promise<T>((resolve, reject) => {
+      const abort = () => {
+        cancel();
+        reject(new Error(`${what} delivery aborted`));
+      };
+      const cancel = clock.setTimeout(() => {
+        signal.removeEventListener("abort", abort);
+        resolve(fn());
+      }, latency);
+
+      if (signal.aborted) abort();
+      else signal.addEventListener("abort", abort, { once: true });
+    });
+  }
+
+  return {
+    async listen(endpoint: NodeEndpoint, app: Express) {
+      endpoints.set(endpoint.nodeId, endpoint);
+      // the server is never bound, it only keeps the launcher's return type uniform
+      return http.createServer(app);
+    },
+
+    send(to: number, message: Message<unknown>, signal: AbortSignal) {
+      const endpoint = getEndpoint(to);
+      const latency = options.latency?.(message.sender, to) ?? 0;
+
+      return deliver(latency, signal, "Message", () => {
+        const accepted = endpoint.receive(message);
+        if (accepted) options.onDeliver?.(to, message);
+        return accepted;
+      });
+    },
+
+    forward(to: number, entry: LogEntry, signal: AbortSignal) {
+      const endpoint = getEndpoint(to);
+      const latency = options.latency?.(entry.origin, to) ?? 0;
+
+      return deliver(latency, signal, "Entry", () => {
+        endpoint.acceptEntry(entry);
+      });
+    },
+
+    async start(nodeId: number, instanceId?: string, initialValue?: unknown) {
+      await getEndpoint(nodeId).start(instanceId, initialValue);
+    },
+
+    async stop(nodeId: number) {
+      getEndpoint(nodeId).stop();
+    },
+
+    async restart(nodeId: number) {
+      if (!getEndpoint(nodeId).restart())
+        throw new Error(`Node ${nodeId} could not be restarted`);
+    },
+
+    resend(to: number, from: number, signal: AbortSignal) {
+      const endpoint = getEndpoint(to);
+      const latency = options.latency?.(from, to) ?? 0;
+
+      return new Promise<void>((resolve, reject) => {
+        clock.setTimeout(() => {
+          if (signal.aborted) {
+            reject(new Error("Resend request aborted"));
+            return;
+          }
+          endpoint.resend(from);
+          resolve();
+        }, latency);
+      });
+    },
+
+    async injectFault(nodeId: number, spec: FaultSpec) {
+      if (!getEndpoint(nodeId).injectFault(spec))
+        throw new Error(`Node ${nodeId} refused the fault ${spec.strategy}`);
+    },
+
+    async getState(nodeId: number, instanceId?: string) {
+      const state = getEndpoint(nodeId).getState(instanceId);
+      if (state === null) {
+        throw new Error(`Node ${nodeId} does not know instance ${instanceId}`);
+      }
+      return state;
+    },
+
+    async submit(nodeId: number, data: unknown) {
+      const entry = getEndpoint(nodeId).submit(data);
+      if (entry === null) throw new Error(`Node ${nodeId} refused the entry`);
+      return entry;
+    },
+
+    async getLog(nodeId: number) {
+      return getEndpoint(nodeId).getLog();
+    },
+
+    async getMembership(nodeId: number) {
+      return getEndpoint(nodeId).getMembership();
+    },
+
+    async getMetrics(nodeId: number) {
+      return getEndpoint(nodeId).getMetrics();
+    },
+
+    async changeMembership(nodeId: number, change: MembershipChange) {
+      const entry = getEndpoint(nodeId).changeMembership(change);
+      if (entry === null) throw new Error(`Node ${nodeId} refused the membership change`);
+      return entry;
+    },
+
+    // nodes are found by id, there is no address to keep
+    setPeer() {},
+    peers: () => ({}),
+  };
+}
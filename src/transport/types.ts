@@ -0,0 +1,56 @@
+import * as http from "http";
+import { Express } from "express";
+import { FaultSpec } from "../faults";
+import { MembershipChange, MembershipSnapshot } from "../membership";
+import { MetricFamily } from "../metrics";
+import { LogEntry, Message, NodeState } from "../types";
+
+// what a node exposes to the transport it is attached to
+export type NodeEndpoint = {
+  nodeId: number;
+  receive: (message: Message<unknown>) => boolean; // false if the node refused the message (stopped or faulty)
+  // false if the node could not be started, the default instance when no id is given
+  start: (instanceId?: string, initialValue?: unknown) => Promise<boolean>;
+  stop: () => void;
+  restart: () => boolean; // false if the node is running or has no durable store
+  resend: (to: number) => boolean; // sends `to` again every message the node sent, false if stopped or faulty
+  injectFault: (spec: FaultSpec) => boolean; // false for unknown strategies or stopped and crashed nodes
+  getState: (instanceId?: string) => NodeState<unknown> | null; // null for unknown instances
+  acceptEntry: (entry: LogEntry) => boolean; // false if the node refused the entry
+  submit: (data: unknown) => LogEntry | null; // null if the node is stopped or faulty
+  getLog: () => LogEntry[];
+  getMembership: () => MembershipSnapshot;
+  changeMembership: (change: MembershipChange) => LogEntry | null; // null if the node is not a member
+  getMetrics: () => MetricFamily[];
+};
+
+// how nodes reach each other and how the launcher reaches the nodes
+export interface Transport {
+  // makes the node reachable, resolves with the server wrapping its routes
+  listen(endpoint: NodeEndpoint, app: Express): Promise<http.Server>;
+  // delivers a message to node `to`, resolves false if the node refused it
+  // as stopped or faulty, rejects if it cannot be reached
+  send(to: number, message: Message<unknown>, signal: AbortSignal): Promise<boolean>;
+  // hands a replicated log entry over to node `to`
+  forward(to: number, entry: LogEntry, signal: AbortSignal): Promise<void>;
+  // without an instance id these drive the instance the node was launched for
+  start(nodeId: number, instanceId?: string, initialValue?: unknown): Promise<void>;
+  stop(nodeId: number): Promise<void>;
+  // brings a stopped node back from its write-ahead log, rejects if it cannot
+  restart(nodeId: number): Promise<void>;
+  // asks node `to` for every message it sent, on behalf of node `from` coming back
+  resend(to: number, from: number, signal: AbortSignal): Promise<void>;
+  // makes a node Byzantine at runtime, rejects if it refused
+  injectFault(nodeId: number, spec: FaultSpec): Promise<void>;
+  getState(nodeId: number, instanceId?: string): Promise<NodeState<unknown>>;
+  submit(nodeId: number, data: unknown): Promise<LogEntry>;
+  getLog(nodeId: number): Promise<LogEntry[]>;
+  getMembership(nodeId: number): Promise<MembershipSnapshot>;
+  // submits a join or leave to the log of node `nodeId`, rejects if it refused
+  changeMembership(nodeId: number, change: MembershipChange): Promise<LogEntry>;
+  // where a node is reached, for transports with explicit peer addresses
+  setPeer(nodeId: number, address: string): void;
+  peers(): Record<number, string>;
+  // what the node measured so far, merged across nodes by collectMetrics
+  getMetrics(nodeId: number): Promise<MetricFamily[]>;
+}
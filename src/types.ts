@@ -1,8 +1,27 @@
-export type NodeState = {
+// the state is generic over the values the network agrees on, binary by default
+export type NodeState<V = BinaryValue> = {
   killed: boolean;
-  x: Value | null;
+  x: Value<V> | null;
   decided: boolean | null;
   k: number | null;
+  rejected?: RejectionCounts; // messages the node refused, all instances together
 };
 
-export type Value = 0 | 1 | "?";
+export type RejectionCounts = {
+  badSignature: number;
+  unknownSender: number;
+  duplicate: number; // second message of a sender for the same instance, phase and round
+  malformed: number; // missing or ill-typed fields
+  version: number; // sent by a node speaking another protocol version
+};
+
+export type BinaryValue = 0 | 1;
+
+// "?" stands for "no value": no majority in Ben-Or, nothing decided in multi-valued consensus
+export type Value<V = BinaryValue> = V | "?";
+
+// phase 1 is the "report" round, phase 2 the "proposal" round
+export type Phase = 1 | 2;
+
+// wire messages between nodes, defined with their validators
+export type { LogEntry, Message } from "./protocol";
@@ -1 +1,35 @@
+import { BinaryValue, NodeState } from "./types";
+
 export const delay = (ms: number) => new Promise((res) => setTimeout(res, ms));
+
+export function isBinaryValue(data: unknown): data is BinaryValue {
+  return data === 0 || data === 1;
+}
+
+// validates if an object is conform to the NodeState type, binary by default
+export function isValidNodeState<V = BinaryValue>(
+  data: any,
+  isValue: (x: unknown) => x is V = isBinaryValue as (x: unknown) => x is V
+): data is NodeState<V> {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    "x" in data &&
+    "decided" in data &&
+    "k" in data &&
+    "killed" in data &&
+    (isValue(data.x) || data.x === "?" || data.x === null) &&
+    (typeof data.decided === "boolean" || data.decided === null) &&
+    (typeof data.k === "number" || data.k === null) &&
+    typeof data.killed === "boolean"
+  );
+}
+
+// key under which two JSON values are equal, whatever the order of their properties
+export function valueKey(value: unknown): string {
+  return JSON.stringify(value, (_, el) =>
+    el !== null && typeof el === "object" && !Array.isArray(el)
+      ? Object.fromEntries(Object.keys(el).sort().map((key) => [key, el[key]]))
+      : el
+  );
+}